@@ -0,0 +1,125 @@
+// ---------- Audio Manager ----------
+
+export class AudioManager {
+  private audioContext: AudioContext | null = null;
+  muted = false;
+
+  // Background music: the page's looping <audio>, heard while a run is played unless switched off or muted
+  private music: HTMLAudioElement | null = null;
+  musicOn = true;
+  private musicWanted = false;
+
+  constructor() {
+    // Don't initialize here - wait for user interaction
+  }
+
+  private ensureAudioContext() {
+    if (!this.audioContext) {
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    if (this.audioContext.state === "suspended") {
+      this.audioContext.resume();
+    }
+  }
+
+  initAudio() {
+    this.ensureAudioContext();
+  }
+
+  // Returns whether sound is now muted
+  toggleMute(): boolean {
+    this.muted = !this.muted;
+    this.syncMusic();
+    return this.muted;
+  }
+
+  attachMusic(element: HTMLAudioElement | null) {
+    this.music = element;
+  }
+
+  // Starts or stops the music with the run; a new run starts it from the top
+  setMusicPlaying(playing: boolean, fromStart = false) {
+    this.musicWanted = playing;
+    if (this.music && fromStart) {
+      this.music.currentTime = 0;
+    }
+    this.syncMusic();
+  }
+
+  // Returns whether music is now on
+  toggleMusic(): boolean {
+    this.musicOn = !this.musicOn;
+    this.syncMusic();
+    return this.musicOn;
+  }
+
+  private syncMusic() {
+    if (!this.music) return;
+    if (this.musicWanted && this.musicOn && !this.muted) {
+      this.music.play().catch((e) => console.log("Music:", e));
+    } else {
+      this.music.pause();
+    }
+  }
+
+  private playSound(frequency: number, duration: number, volume: number = 0.3, type: "sine" | "square" | "triangle" = "sine") {
+    if (this.muted) return;
+    this.ensureAudioContext();
+    if (!this.audioContext) return;
+
+    const now = this.audioContext.currentTime;
+    const osc = this.audioContext.createOscillator();
+    const gain = this.audioContext.createGain();
+
+    osc.connect(gain);
+    gain.connect(this.audioContext.destination);
+
+    osc.type = type;
+    osc.frequency.setValueAtTime(frequency, now);
+    gain.gain.setValueAtTime(volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + duration);
+
+    osc.start(now);
+    osc.stop(now + duration);
+  }
+
+  playCollisionSound() {
+    // Low descending pitch for collision
+    this.playSound(200, 0.1, 0.4, "square");
+    setTimeout(() => this.playSound(150, 0.1, 0.3, "square"), 50);
+  }
+
+  playLevelPassSound() {
+    // Ascending melody for level pass
+    this.playSound(523, 0.1, 0.3, "sine"); // C5
+    setTimeout(() => this.playSound(659, 0.1, 0.3, "sine"), 120); // E5
+    setTimeout(() => this.playSound(784, 0.1, 0.3, "sine"), 240); // G5
+    setTimeout(() => this.playSound(1047, 0.2, 0.3, "sine"), 360); // C6
+  }
+
+  playNearMissSound() {
+    // Short high blip for a near miss
+    this.playSound(1200, 0.06, 0.15, "triangle");
+  }
+
+  playPowerUpSound() {
+    // Two quick rising notes for a pickup
+    this.playSound(660, 0.08, 0.25, "sine");
+    setTimeout(() => this.playSound(990, 0.1, 0.25, "sine"), 70);
+  }
+
+  playCatchSound() {
+    // Bright ping for a caught object
+    this.playSound(800, 0.1, 0.25, "sine");
+  }
+
+  playMissSound() {
+    // Dull low note for a collectible that got away
+    this.playSound(220, 0.12, 0.2, "triangle");
+  }
+
+  playFireworksSound() {
+    // Quick pop sound for fireworks
+    this.playSound(800, 0.05, 0.25, "square");
+  }
+}
@@ -0,0 +1,240 @@
+import { Bounds, Point, interpolate } from "./geometry";
+import { Shape, polygonAround, shapesIntersect } from "./collision";
+import type { GameField } from "./field";
+import { BounceMotion } from "./motion";
+import { FallingCircle, GameObject, ObjectRole } from "./objects";
+import { Random } from "./random";
+
+// ---------- Boss ----------
+//
+// A large entity that patrols the top of the field and spawns projectiles
+// while the level runs, cycling through scripted attack phases. It can't be
+// destroyed: its health drains as the player survives, and it leaves once
+// the fight is over. Runtime randomness comes from its own seeded Random,
+// so boss fights replay exactly.
+
+export type BossAttack = "spread" | "sweep" | "targeted";
+
+export const BOSS_ATTACKS: BossAttack[] = ["spread", "sweep", "targeted"];
+
+export interface BossPhase {
+  attack: BossAttack;
+  duration: number; // ms
+  interval: number; // ms between volleys
+  count?: number; // projectiles per spread volley, defaults to 5
+}
+
+export interface BossDefinition {
+  name: string;
+  phases?: BossPhase[]; // run in order, then repeated; defaults to one of each attack
+}
+
+export const DEFAULT_BOSS_PHASES: BossPhase[] = [
+  { attack: "spread", duration: 5000, interval: 1200, count: 5 },
+  { attack: "sweep", duration: 4000, interval: 160 },
+  { attack: "targeted", duration: 5000, interval: 700 },
+];
+
+const PHASE_LABELS: Record<BossAttack, string> = {
+  spread: "Spread",
+  sweep: "Sweep",
+  targeted: "Targeted",
+};
+
+const BOSS_WIDTH = 150;
+const BOSS_HEIGHT = 54;
+const PATROL_Y = 70;
+const ENTER_MS = 1500; // time to descend into view
+const QUIET_MS = 3000; // no attacks at the end, so the last volley can clear the field
+const PROJECTILE_RADIUS = 10;
+const PROJECTILE_COLOR = "#ff4d6d";
+const HEALTH_BAR_WIDTH = 300;
+
+export class Boss implements GameObject {
+  role: ObjectRole = "boss";
+  location: Point;
+  previousLocation: Point;
+  speed: Point = { x: 0, y: 0 };
+  isAlive = true;
+
+  private ageMs = 0;
+  private phaseIndex = 0;
+  private phaseElapsedMs = 0;
+  private sinceVolleyMs = 0;
+  private sweepX = 0;
+  private sweepDirection = 1;
+  private rng: Random;
+
+  constructor(
+    readonly name: string,
+    private phases: BossPhase[],
+    private difficulty: number,
+    private fightMs: number, // how long until the boss is drained and leaves
+    private fieldWidth: number,
+    seed: number
+  ) {
+    this.location = { x: fieldWidth / 2, y: -BOSS_HEIGHT };
+    this.previousLocation = { ...this.location };
+    this.rng = new Random(seed);
+  }
+
+  // 1 when the fight starts, 0 when the boss gives up
+  get health(): number {
+    return Math.max(0, 1 - this.ageMs / this.fightMs);
+  }
+
+  get phase(): BossPhase {
+    return this.phases[this.phaseIndex];
+  }
+
+  get phaseRemainingMs(): number {
+    return Math.max(0, this.phase.duration - this.phaseElapsedMs);
+  }
+
+  move(deltaSeconds: number, field: GameField): void {
+    const deltaMs = deltaSeconds * 1000;
+    this.ageMs += deltaMs;
+
+    // Descend, patrol side to side, then fly off the top when drained
+    const patrolHalfWidth = this.fieldWidth / 2 - BOSS_WIDTH / 2 - 10;
+    this.location.x = this.fieldWidth / 2 + patrolHalfWidth * Math.sin((this.ageMs / 1000) * 0.6);
+    if (this.health === 0) {
+      this.location.y -= 120 * deltaSeconds;
+      if (this.location.y < -BOSS_HEIGHT) {
+        this.isAlive = false;
+      }
+      return;
+    }
+    this.location.y = -BOSS_HEIGHT + (PATROL_Y + BOSS_HEIGHT) * Math.min(1, this.ageMs / ENTER_MS);
+
+    if (this.ageMs < ENTER_MS || this.ageMs > this.fightMs - QUIET_MS) {
+      return;
+    }
+
+    this.phaseElapsedMs += deltaMs;
+    if (this.phaseElapsedMs >= this.phase.duration) {
+      this.phaseIndex = (this.phaseIndex + 1) % this.phases.length;
+      this.phaseElapsedMs = 0;
+      this.sinceVolleyMs = 0;
+      this.sweepX = this.location.x;
+    }
+
+    // Attacks get denser with difficulty
+    this.sinceVolleyMs += deltaMs;
+    const interval = this.phase.interval / Math.sqrt(this.difficulty);
+    if (this.sinceVolleyMs >= interval) {
+      this.sinceVolleyMs -= interval;
+      this.attack(field);
+    }
+  }
+
+  private attack(field: GameField): void {
+    const speed = 150 + this.difficulty * 40;
+    const muzzle = { x: this.location.x, y: this.location.y + BOSS_HEIGHT / 2 };
+
+    if (this.phase.attack === "spread") {
+      const count = this.phase.count ?? 5;
+      for (let i = 0; i < count; i++) {
+        const t = count === 1 ? 0 : (i / (count - 1)) * 2 - 1;
+        field.addObject(this.projectile(muzzle, speed, t * 160));
+      }
+    } else if (this.phase.attack === "sweep") {
+      // A line of drops walking across the field and back
+      const step = PROJECTILE_RADIUS * 3;
+      this.sweepX += step * this.sweepDirection;
+      if (this.sweepX < PROJECTILE_RADIUS || this.sweepX > field.width - PROJECTILE_RADIUS) {
+        this.sweepDirection = -this.sweepDirection;
+        this.sweepX = Math.max(PROJECTILE_RADIUS, Math.min(field.width - PROJECTILE_RADIUS, this.sweepX));
+      }
+      field.addObject(this.projectile({ x: this.sweepX, y: muzzle.y }, speed * 0.9, 0));
+    } else {
+      // Aimed at where the nearest player is now, with a little jitter
+      const target = field.nearestPlayer(muzzle)?.location.x ?? muzzle.x;
+      const x = target + this.rng.between(-20, 20);
+      field.addObject(this.projectile({ x, y: muzzle.y }, speed * 1.3, 0));
+    }
+  }
+
+  private projectile(from: Point, speedY: number, speedX: number): FallingCircle {
+    const projectile = new FallingCircle({ ...from }, speedY, PROJECTILE_RADIUS, PROJECTILE_COLOR, "#ffffff");
+    if (speedX !== 0) {
+      projectile.motion = new BounceMotion(speedX);
+    }
+    return projectile;
+  }
+
+  getBounds(): Bounds {
+    return {
+      x: this.location.x - BOSS_WIDTH / 2,
+      y: this.location.y - BOSS_HEIGHT / 2,
+      width: BOSS_WIDTH,
+      height: BOSS_HEIGHT,
+    };
+  }
+
+  getShape(): Shape {
+    // Ellipse approximated by a 12-sided polygon
+    const outline: Point[] = [];
+    for (let i = 0; i < 12; i++) {
+      const angle = (i / 12) * Math.PI * 2;
+      outline.push({ x: (Math.cos(angle) * BOSS_WIDTH) / 2, y: (Math.sin(angle) * BOSS_HEIGHT) / 2 });
+    }
+    return polygonAround(this.location, 0, outline);
+  }
+
+  hasCollision(other: GameObject): boolean {
+    return shapesIntersect(this.getShape(), other.getShape());
+  }
+
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const pos = interpolate(this.previousLocation, this.location, alpha);
+
+    ctx.save();
+    // Body
+    ctx.shadowColor = PROJECTILE_COLOR;
+    ctx.shadowBlur = 20;
+    ctx.fillStyle = "#5a1a6e";
+    ctx.strokeStyle = PROJECTILE_COLOR;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.ellipse(pos.x, pos.y, BOSS_WIDTH / 2, BOSS_HEIGHT / 2, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+
+    // Eyes follow the current attack
+    ctx.fillStyle = this.phase.attack === "targeted" ? "#ff4d6d" : "#ffdf6e";
+    for (const side of [-1, 1]) {
+      ctx.beginPath();
+      ctx.arc(pos.x + side * 28, pos.y - 4, 8, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.restore();
+
+    this.renderHealthBar(ctx);
+  }
+
+  // Fixed at the top of the field with the boss name and the current phase timer
+  private renderHealthBar(ctx: CanvasRenderingContext2D): void {
+    const x = this.fieldWidth / 2 - HEALTH_BAR_WIDTH / 2;
+    const y = 10;
+
+    ctx.save();
+    ctx.fillStyle = "rgba(0,0,0,0.5)";
+    ctx.fillRect(x, y, HEALTH_BAR_WIDTH, 10);
+    ctx.fillStyle = PROJECTILE_COLOR;
+    ctx.fillRect(x, y, HEALTH_BAR_WIDTH * this.health, 10);
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, y, HEALTH_BAR_WIDTH, 10);
+
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "12px Arial";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    const phaseText =
+      this.health > 0 ? `${PHASE_LABELS[this.phase.attack]} ${Math.ceil(this.phaseRemainingMs / 1000)}s` : "Retreating";
+    ctx.fillText(`${this.name} — ${phaseText}`, this.fieldWidth / 2, y + 14);
+    ctx.restore();
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { Shape, polygonAround, shapesIntersect, starShape } from "./collision";
+import { GameField } from "./field";
+import type { Point } from "./geometry";
+import { FallingCircle, Player } from "./objects";
+import { FIXED_STEP_MS } from "./simulation";
+
+function rect(x: number, y: number, width: number, height: number): Shape {
+  return { kind: "rect", bounds: { x, y, width, height } };
+}
+
+function circle(x: number, y: number, radius: number): Shape {
+  return { kind: "circle", center: { x, y }, radius };
+}
+
+function square(center: Point, size: number, angle: number): Shape {
+  const half = size / 2;
+  return polygonAround(center, angle, [
+    { x: -half, y: -half },
+    { x: half, y: -half },
+    { x: half, y: half },
+    { x: -half, y: half },
+  ]);
+}
+
+// A 40px square turned into a diamond: tips 28.3px from the center, faces 20px away
+const DIAMOND = square({ x: 0, y: 0 }, 40, Math.PI / 4);
+
+describe("shapesIntersect", () => {
+  it("uses the rotated outline, not the unrotated box", () => {
+    // Inside the unrotated 40px box, but past the diamond's face
+    expect(shapesIntersect(DIAMOND, rect(15, -35, 20, 20))).toBe(false);
+    expect(shapesIntersect(DIAMOND, rect(13, -33, 20, 20))).toBe(true);
+  });
+
+  it("tests circles against rotated faces and tips", () => {
+    // Along a face normal
+    expect(shapesIntersect(circle(20, -20, 5), DIAMOND)).toBe(false);
+    expect(shapesIntersect(DIAMOND, circle(15, -15, 5))).toBe(true);
+    // Next to a tip, where only the axis towards the closest vertex separates them
+    expect(shapesIntersect(circle(34, 0, 5), DIAMOND)).toBe(false);
+    expect(shapesIntersect(circle(33, 0, 5), DIAMOND)).toBe(true);
+  });
+
+  it("doesn't count shapes that only touch", () => {
+    expect(shapesIntersect(rect(0, 0, 10, 10), rect(10, 0, 10, 10))).toBe(false);
+    expect(shapesIntersect(square({ x: 0, y: 0 }, 20, 0), square({ x: 20, y: 0 }, 20, 0))).toBe(false);
+    expect(shapesIntersect(circle(15, 5, 5), rect(0, 0, 10, 10))).toBe(false);
+    expect(shapesIntersect(circle(0, 0, 5), circle(10, 0, 5))).toBe(false);
+  });
+
+  it("misses by less than a pixel", () => {
+    expect(shapesIntersect(circle(15.5, 5, 5), rect(0, 0, 10, 10))).toBe(false);
+    expect(shapesIntersect(circle(14.5, 5, 5), rect(0, 0, 10, 10))).toBe(true);
+    expect(shapesIntersect(circle(0, 0, 5), circle(10.5, 0, 5))).toBe(false);
+  });
+
+  it("leaves the gaps between a star's tips empty", () => {
+    const star = starShape({ x: 0, y: 0 }, 0, 5, 20, 10);
+    // Halfway between the top tip and the next one, just outside the inner corner
+    const between = (-54 * Math.PI) / 180;
+    expect(shapesIntersect(star, circle(Math.cos(between) * 14, Math.sin(between) * 14, 1))).toBe(false);
+    expect(shapesIntersect(star, circle(Math.cos(between) * 5, Math.sin(between) * 5, 1))).toBe(true);
+    // The tip itself
+    expect(shapesIntersect(star, circle(0, -18, 1))).toBe(true);
+  });
+});
+
+describe("fast objects", () => {
+  it("can't step over the player in one fixed step", () => {
+    const field = new GameField(800, 500);
+    const player = new Player({ x: 400, y: 450 }, 60, 20, "green", "black");
+    const falling = new FallingCircle({ x: 400, y: 300 }, 1200, 10, "red", "black");
+
+    let hit = false;
+    while (falling.isAlive && !hit) {
+      falling.move(FIXED_STEP_MS / 1000, field);
+      hit = falling.hasCollision(player);
+    }
+    expect(hit).toBe(true);
+  });
+});
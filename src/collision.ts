@@ -0,0 +1,178 @@
+import { Bounds, Point, boundsIntersect } from "./geometry";
+
+// ---------- Collision Shapes ----------
+//
+// Exact geometry for hit tests. Polygons must be convex (separating axis
+// test); concave outlines such as stars are split into convex parts.
+
+export type Shape =
+  | { kind: "rect"; bounds: Bounds } // axis-aligned
+  | { kind: "circle"; center: Point; radius: number }
+  | { kind: "polygon"; points: Point[] } // convex, field coordinates
+  | { kind: "compound"; parts: Shape[] };
+
+// Points of a convex outline given relative to `center`, rotated by `angle`
+export function polygonAround(center: Point, angle: number, local: Point[]): Shape {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    kind: "polygon",
+    points: local.map((p) => ({
+      x: center.x + p.x * cos - p.y * sin,
+      y: center.y + p.x * sin + p.y * cos,
+    })),
+  };
+}
+
+// Star outline split into an inner pentagon-like core plus one triangle per tip
+export function starShape(center: Point, angle: number, points: number, outerRadius: number, innerRadius: number): Shape {
+  const vertex = (i: number, radius: number): Point => {
+    const a = (i * Math.PI) / points - Math.PI / 2;
+    return { x: Math.cos(a) * radius, y: Math.sin(a) * radius };
+  };
+
+  const inner: Point[] = [];
+  const parts: Shape[] = [];
+  for (let i = 0; i < points; i++) {
+    const tip = vertex(i * 2, outerRadius);
+    const left = vertex(i * 2 - 1, innerRadius);
+    const right = vertex(i * 2 + 1, innerRadius);
+    inner.push(right);
+    parts.push(polygonAround(center, angle, [left, tip, right]));
+  }
+  parts.push(polygonAround(center, angle, inner));
+
+  return { kind: "compound", parts };
+}
+
+function rectPoints(b: Bounds): Point[] {
+  return [
+    { x: b.x, y: b.y },
+    { x: b.x + b.width, y: b.y },
+    { x: b.x + b.width, y: b.y + b.height },
+    { x: b.x, y: b.y + b.height },
+  ];
+}
+
+function project(points: Point[], axis: Point): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const p of points) {
+    const d = p.x * axis.x + p.y * axis.y;
+    min = Math.min(min, d);
+    max = Math.max(max, d);
+  }
+  return [min, max];
+}
+
+function edgeNormals(points: Point[]): Point[] {
+  return points.map((p, i) => {
+    const next = points[(i + 1) % points.length];
+    return { x: -(next.y - p.y), y: next.x - p.x };
+  });
+}
+
+// Separating axis test for two convex polygons
+function polygonsIntersect(a: Point[], b: Point[]): boolean {
+  for (const axis of [...edgeNormals(a), ...edgeNormals(b)]) {
+    const [minA, maxA] = project(a, axis);
+    const [minB, maxB] = project(b, axis);
+    if (maxA <= minB || maxB <= minA) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function circleIntersectsPolygon(center: Point, radius: number, points: Point[]): boolean {
+  // Polygon edge normals plus the axis from the closest vertex to the circle center
+  let closest = points[0];
+  let closestDist = Infinity;
+  for (const p of points) {
+    const dist = (p.x - center.x) ** 2 + (p.y - center.y) ** 2;
+    if (dist < closestDist) {
+      closestDist = dist;
+      closest = p;
+    }
+  }
+  const axes = [...edgeNormals(points), { x: closest.x - center.x, y: closest.y - center.y }];
+
+  for (const axis of axes) {
+    const length = Math.hypot(axis.x, axis.y);
+    if (length === 0) {
+      continue;
+    }
+    const [minP, maxP] = project(points, axis);
+    const c = (center.x * axis.x + center.y * axis.y) / length;
+    const minC = c - radius;
+    const maxC = c + radius;
+    if (maxP / length <= minC || maxC <= minP / length) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function circleIntersectsRect(center: Point, radius: number, b: Bounds): boolean {
+  const nearestX = Math.max(b.x, Math.min(center.x, b.x + b.width));
+  const nearestY = Math.max(b.y, Math.min(center.y, b.y + b.height));
+  return (center.x - nearestX) ** 2 + (center.y - nearestY) ** 2 < radius * radius;
+}
+
+export function shapesIntersect(a: Shape, b: Shape): boolean {
+  if (a.kind === "compound") {
+    return a.parts.some((part) => shapesIntersect(part, b));
+  }
+  if (b.kind === "compound") {
+    return b.parts.some((part) => shapesIntersect(a, part));
+  }
+
+  if (a.kind === "rect" && b.kind === "rect") {
+    return boundsIntersect(a.bounds, b.bounds);
+  }
+  if (a.kind === "circle" && b.kind === "circle") {
+    const r = a.radius + b.radius;
+    return (a.center.x - b.center.x) ** 2 + (a.center.y - b.center.y) ** 2 < r * r;
+  }
+  if (a.kind === "circle" && b.kind === "rect") {
+    return circleIntersectsRect(a.center, a.radius, b.bounds);
+  }
+  if (a.kind === "rect" && b.kind === "circle") {
+    return circleIntersectsRect(b.center, b.radius, a.bounds);
+  }
+  if (a.kind === "circle") {
+    return circleIntersectsPolygon(a.center, a.radius, shapePoints(b));
+  }
+  if (b.kind === "circle") {
+    return circleIntersectsPolygon(b.center, b.radius, shapePoints(a));
+  }
+  return polygonsIntersect(shapePoints(a), shapePoints(b));
+}
+
+function shapePoints(shape: Shape): Point[] {
+  if (shape.kind === "rect") {
+    return rectPoints(shape.bounds);
+  }
+  if (shape.kind === "polygon") {
+    return shape.points;
+  }
+  throw new Error(`Shape ${shape.kind} has no single outline`);
+}
+
+// Debug overlay: outlines the exact hit shape
+export function renderShape(ctx: CanvasRenderingContext2D, shape: Shape): void {
+  if (shape.kind === "compound") {
+    shape.parts.forEach((part) => renderShape(ctx, part));
+    return;
+  }
+
+  ctx.beginPath();
+  if (shape.kind === "circle") {
+    ctx.arc(shape.center.x, shape.center.y, shape.radius, 0, Math.PI * 2);
+  } else {
+    const points = shapePoints(shape);
+    points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+  }
+  ctx.stroke();
+}
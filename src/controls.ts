@@ -0,0 +1,117 @@
+// ---------- Controls ----------
+//
+// Every key the game reacts to is bound to an action. Each action has up to
+// BINDING_SLOTS keys; the defaults below apply until the player rebinds
+// something on the settings screen, and their bindings are saved with the
+// rest of the game data.
+
+export type Direction = "left" | "right" | "up" | "down";
+export type Command = "pause" | "restart" | "mute";
+export type Action =
+  | "p1Left"
+  | "p1Right"
+  | "p1Up"
+  | "p1Down"
+  | "p2Left"
+  | "p2Right"
+  | "p2Up"
+  | "p2Down"
+  | Command;
+
+// How a finger on the screen steers, see TouchInput
+export type TouchScheme = "drag" | "joystick";
+
+export const TOUCH_SCHEMES: TouchScheme[] = ["drag", "joystick"];
+
+export const TOUCH_SCHEME_LABELS: Record<TouchScheme, string> = {
+  drag: "Drag",
+  joystick: "Joystick",
+};
+
+// Keys per action, normalized by normalizeKey
+export type Bindings = Record<Action, string[]>;
+
+export const BINDING_SLOTS = 2;
+
+export const ACTIONS: Action[] = [
+  "p1Left",
+  "p1Right",
+  "p1Up",
+  "p1Down",
+  "p2Left",
+  "p2Right",
+  "p2Up",
+  "p2Down",
+  "pause",
+  "restart",
+  "mute",
+];
+
+export const ACTION_LABELS: Record<Action, string> = {
+  p1Left: "Player 1 left",
+  p1Right: "Player 1 right",
+  p1Up: "Player 1 up",
+  p1Down: "Player 1 down",
+  p2Left: "Player 2 left",
+  p2Right: "Player 2 right",
+  p2Up: "Player 2 up",
+  p2Down: "Player 2 down",
+  pause: "Pause / resume",
+  restart: "Restart",
+  mute: "Mute",
+};
+
+// Player (0-based) and direction of each movement action; alone, both players' keys move the paddle
+export const MOVES: Partial<Record<Action, [number, Direction]>> = {
+  p1Left: [0, "left"],
+  p1Right: [0, "right"],
+  p1Up: [0, "up"],
+  p1Down: [0, "down"],
+  p2Left: [1, "left"],
+  p2Right: [1, "right"],
+  p2Up: [1, "up"],
+  p2Down: [1, "down"],
+};
+
+export const DEFAULT_BINDINGS: Bindings = {
+  p1Left: ["a"],
+  p1Right: ["d"],
+  p1Up: ["w"],
+  p1Down: ["s"],
+  p2Left: ["ArrowLeft"],
+  p2Right: ["ArrowRight"],
+  p2Up: ["ArrowUp"],
+  p2Down: ["ArrowDown"],
+  pause: ["Escape", "p"],
+  restart: ["r"],
+  mute: ["m"],
+};
+
+// Letters match regardless of Shift and Caps Lock
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  " ": "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+};
+
+export function keyLabel(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+// Keys bound to more than one action, with those actions
+export function findConflicts(bindings: Bindings): Map<string, Action[]> {
+  const byKey = new Map<string, Action[]>();
+  for (const action of ACTIONS) {
+    for (const key of new Set(bindings[action])) {
+      byKey.set(key, [...(byKey.get(key) ?? []), action]);
+    }
+  }
+  return new Map([...byKey].filter(([, actions]) => actions.length > 1));
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { DailyResult, dailyKey, dailyPack, dailySeed, dailyStreak, recentDays } from "./daily";
+import { GameStorage } from "./storage";
+
+const PLAYED: DailyResult = { score: 100, levelsCleared: 2 };
+
+// Results for each of these days
+function played(...days: string[]): Record<string, DailyResult> {
+  return Object.fromEntries(days.map((day) => [day, PLAYED]));
+}
+
+describe("daily seed", () => {
+  it("is the same all through a UTC day", () => {
+    const morning = dailyKey(new Date("2026-03-14T00:00:01Z"));
+    const night = dailyKey(new Date("2026-03-14T23:59:59Z"));
+    expect(morning).toBe("2026-03-14");
+    expect(night).toBe(morning);
+    expect(dailyKey(new Date("2026-03-15T00:00:00Z"))).toBe("2026-03-15");
+  });
+
+  it("gives the same date the same seed and levels", () => {
+    expect(dailySeed("2026-03-14")).toBe(dailySeed("2026-03-14"));
+    expect(dailySeed("2026-03-14")).not.toBe(dailySeed("2026-03-15"));
+    expect(dailyPack(dailySeed("2026-03-14"))).toEqual(dailyPack(dailySeed("2026-03-14")));
+  });
+});
+
+describe("daily streak", () => {
+  it("counts consecutive days up to today", () => {
+    expect(dailyStreak(played("2026-03-12", "2026-03-13", "2026-03-14"), "2026-03-14")).toBe(3);
+    expect(dailyStreak({}, "2026-03-14")).toBe(0);
+  });
+
+  it("isn't broken by today not being played yet", () => {
+    expect(dailyStreak(played("2026-03-12", "2026-03-13"), "2026-03-14")).toBe(2);
+  });
+
+  it("stops at a missed day", () => {
+    expect(dailyStreak(played("2026-03-10", "2026-03-11", "2026-03-13", "2026-03-14"), "2026-03-14")).toBe(2);
+    // Missing yesterday as well as today ends it
+    expect(dailyStreak(played("2026-03-11", "2026-03-12"), "2026-03-14")).toBe(0);
+  });
+
+  it("runs across month and year boundaries", () => {
+    expect(dailyStreak(played("2026-02-27", "2026-02-28", "2026-03-01"), "2026-03-01")).toBe(3);
+    expect(dailyStreak(played("2024-02-28", "2024-02-29", "2024-03-01"), "2024-03-01")).toBe(3);
+    expect(dailyStreak(played("2025-12-31", "2026-01-01"), "2026-01-01")).toBe(2);
+    expect(recentDays("2026-03-02", 4)).toEqual(["2026-02-27", "2026-02-28", "2026-03-01", "2026-03-02"]);
+  });
+});
+
+describe("recordDailyAttempt", () => {
+  it("keeps only the best attempt of the day", () => {
+    const storage = new GameStorage(null);
+    expect(storage.recordDailyAttempt("2026-03-14", { score: 500, levelsCleared: 1 })).toBe(true);
+    // More levels cleared beats a higher score
+    expect(storage.recordDailyAttempt("2026-03-14", { score: 300, levelsCleared: 2 })).toBe(true);
+    expect(storage.recordDailyAttempt("2026-03-14", { score: 900, levelsCleared: 1 })).toBe(false);
+    // Same levels: the higher score wins, a tie changes nothing
+    expect(storage.recordDailyAttempt("2026-03-14", { score: 400, levelsCleared: 2 })).toBe(true);
+    expect(storage.recordDailyAttempt("2026-03-14", { score: 400, levelsCleared: 2 })).toBe(false);
+    expect(storage.daily["2026-03-14"]).toEqual({ score: 400, levelsCleared: 2 });
+
+    // Other days are kept apart
+    expect(storage.recordDailyAttempt("2026-03-15", { score: 10, levelsCleared: 0 })).toBe(true);
+    expect(Object.keys(storage.daily)).toEqual(["2026-03-14", "2026-03-15"]);
+  });
+});
@@ -0,0 +1,70 @@
+import type { LevelDefinition, LevelPack } from "./levelpack";
+import { LEVEL_KINDS, LEVEL_THEMES } from "./level";
+import { Random, parseSeed } from "./random";
+
+// ---------- Daily Challenge ----------
+//
+// One short run per calendar day, the same for everybody: the seed comes from
+// the date alone. Days are UTC days so players in different time zones share
+// a layout.
+
+const DAILY_LEVEL_MS = 20000;
+const DAILY_DIFFICULTIES = [0.9, 1.15, 1.4, 1.65, 1.9];
+export const DAILY_LEVEL_COUNT = DAILY_DIFFICULTIES.length;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Best attempt of one day
+export interface DailyResult {
+  score: number;
+  levelsCleared: number; // DAILY_LEVEL_COUNT when the whole challenge was beaten
+}
+
+// "YYYY-MM-DD" of the UTC day
+export function dailyKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function dailySeed(key: string): number {
+  // Non-numeric text, so parseSeed always hashes it
+  return parseSeed(`daily-${key}`) as number;
+}
+
+function shiftDays(key: string, days: number): string {
+  return dailyKey(new Date(Date.parse(`${key}T00:00:00Z`) + days * DAY_MS));
+}
+
+// The last `count` day keys, oldest first, ending with `todayKey`
+export function recentDays(todayKey: string, count: number): string[] {
+  const days: string[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    days.push(shiftDays(todayKey, -i));
+  }
+  return days;
+}
+
+// Consecutive days played up to today; today not played yet doesn't break it
+export function dailyStreak(results: Record<string, DailyResult>, todayKey: string): number {
+  let day = results[todayKey] ? todayKey : shiftDays(todayKey, -1);
+  let streak = 0;
+  while (results[day]) {
+    streak++;
+    day = shiftDays(day, -1);
+  }
+  return streak;
+}
+
+// The day's levels: scenery drawn from the seed, difficulty rising to a boss at the end
+export function dailyPack(seed: number): LevelPack {
+  const rng = new Random(seed);
+  const levels: LevelDefinition[] = DAILY_DIFFICULTIES.map((difficulty) => ({
+    duration: DAILY_LEVEL_MS,
+    difficulty,
+    theme: rng.choice(LEVEL_THEMES),
+    kind: rng.choice(LEVEL_KINDS),
+    powerUpsPerMinute: 3,
+  }));
+  const last = levels[levels.length - 1];
+  last.density = 0.5;
+  last.boss = { name: "Daily Guardian" };
+  return { name: "Daily Challenge", levels };
+}
@@ -0,0 +1,562 @@
+import { WORLD_HEIGHT, WORLD_WIDTH } from "./field";
+import { Fireworks } from "./fireworks";
+import { LEVEL_KINDS, LEVEL_THEMES, LevelKind, LevelTheme, OBJECT_TYPES, ObjectType } from "./level";
+import { DEFAULT_LEVEL_PACK, LevelDefinition, LevelPack, SpawnDefinition, parseLevelPack, validateLevelPack } from "./levelpack";
+import { MOTION_KINDS, MotionKind, MotionSpec } from "./motion";
+import { POWER_UP_INFO, POWER_UP_KINDS, PowerUpKind } from "./powerups";
+import { Random } from "./random";
+import { CanvasRenderer } from "./renderer";
+import { FIXED_STEP_MS, NO_INPUT, Simulation } from "./simulation";
+
+// ---------- Level Editor ----------
+//
+// Authoring page for level packs. The timeline places handcrafted spawns on a
+// time/x grid; the preview runs the level in a headless Simulation that is
+// re-simulated up to the scrubbed time, so what you see is what the game plays.
+
+const TIMELINE_PX_PER_SECOND = 40;
+const TIMELINE_MARGIN = 12;
+const TIME_SNAP_MS = 250;
+const X_SNAP = 0.05;
+const PICK_RADIUS = 10;
+const WALL_GAP = 0.15; // share of the field width left open in a wall
+
+type SpawnType = ObjectType | "powerUp";
+
+const TYPE_COLORS: Record<ObjectType, string> = {
+  circle: "#ff9f80",
+  square: "#ffdf6e",
+  triangle: "#85e3ff",
+  emoji: "#baffc9",
+  star: "#ffff00",
+  diamond: "#00ccff",
+};
+
+// Starting values when a motion is picked for a new spawn
+const DEFAULT_MOTIONS: Record<MotionKind, MotionSpec> = {
+  straight: { kind: "straight" },
+  sine: { kind: "sine", amplitude: 50, frequency: 0.5, phase: 0 },
+  bounce: { kind: "bounce", speedX: 120 },
+  gravity: { kind: "gravity", acceleration: 300 },
+  homing: { kind: "homing", turnRate: 110, maxSpeedX: 90 },
+  split: { kind: "split", atHeight: 0.4, pieces: 2, spread: 120 },
+};
+
+function emptyLevel(): LevelDefinition {
+  return { duration: 20000, difficulty: 1, theme: "night", kind: "shapes", density: 0, spawns: [] };
+}
+
+function fillSelect(select: HTMLSelectElement, values: readonly string[]): void {
+  select.innerHTML = "";
+  values.forEach((value) => select.appendChild(new Option(value, value)));
+}
+
+function snap(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function element<T extends HTMLElement>(id: string): T {
+  return document.getElementById(id) as T;
+}
+
+class LevelEditor {
+  private pack: LevelPack = structuredClone(DEFAULT_LEVEL_PACK);
+  private levelIndex = 0;
+  private selected: number | null = null; // index into the level's spawns
+  private dragging = false;
+
+  private sim: Simulation;
+  private renderer: CanvasRenderer;
+  private fireworks = new Fireworks(new Random(0));
+  private previewMs = 0;
+  private previewValid = false;
+  private playing = false;
+  private lastFrameTime = 0;
+
+  private packName = element<HTMLInputElement>("pack-name");
+  private levelSelect = element<HTMLSelectElement>("level-select");
+  private durationInput = element<HTMLInputElement>("level-duration");
+  private difficultyInput = element<HTMLInputElement>("level-difficulty");
+  private themeSelect = element<HTMLSelectElement>("level-theme");
+  private kindSelect = element<HTMLSelectElement>("level-kind");
+  private catchSelect = element<HTMLSelectElement>("level-catch");
+  private densityInput = element<HTMLInputElement>("level-density");
+  private powerUpsInput = element<HTMLInputElement>("level-powerups");
+  private seedInput = element<HTMLInputElement>("preview-seed");
+  private placementSelect = element<HTMLSelectElement>("placement");
+  private typeSelect = element<HTMLSelectElement>("spawn-type");
+  private emojiInput = element<HTMLInputElement>("spawn-emoji");
+  private powerUpSelect = element<HTMLSelectElement>("spawn-powerup");
+  private speedInput = element<HTMLInputElement>("spawn-speed");
+  private sizeInput = element<HTMLInputElement>("spawn-size");
+  private motionSelect = element<HTMLSelectElement>("spawn-motion");
+  private timeline = element<HTMLCanvasElement>("timeline");
+  private timelineCtx = this.timeline.getContext("2d") as CanvasRenderingContext2D;
+  private previewCanvas = element<HTMLCanvasElement>("preview");
+  private previewTime = element<HTMLInputElement>("preview-time");
+  private previewTimeLabel = element<HTMLSpanElement>("preview-time-label");
+  private spawnCount = element<HTMLSpanElement>("spawn-count");
+  private problemsList = element<HTMLUListElement>("problems");
+  private playButton = element<HTMLButtonElement>("btn-play");
+
+  constructor() {
+    fillSelect(this.themeSelect, LEVEL_THEMES);
+    fillSelect(this.kindSelect, LEVEL_KINDS);
+    fillSelect(this.catchSelect, ["", ...LEVEL_KINDS]); // blank: nothing to catch
+    fillSelect(this.typeSelect, [...OBJECT_TYPES, "powerUp"]);
+    fillSelect(this.powerUpSelect, POWER_UP_KINDS);
+    fillSelect(this.motionSelect, MOTION_KINDS);
+    this.seedInput.value = "1";
+    this.emojiInput.value = "🐶";
+    this.speedInput.value = "200";
+    this.sizeInput.value = "36";
+
+    this.sim = new Simulation(WORLD_WIDTH, WORLD_HEIGHT, 1);
+    this.renderer = new CanvasRenderer(this.previewCanvas, 1);
+    this.renderer.viewport.onResize = () => this.renderer.render(this.sim, this.fireworks);
+
+    this.initControls();
+    this.showPack();
+  }
+
+  private get level(): LevelDefinition {
+    return this.pack.levels[this.levelIndex];
+  }
+
+  private get spawns(): SpawnDefinition[] {
+    this.level.spawns ??= [];
+    return this.level.spawns;
+  }
+
+  // ---------- Pack and level forms ----------
+
+  private showPack(): void {
+    this.packName.value = this.pack.name;
+    this.levelSelect.innerHTML = "";
+    this.pack.levels.forEach((_, i) => this.levelSelect.appendChild(new Option(`Level ${i + 1}`, String(i))));
+    this.levelIndex = clamp(this.levelIndex, 0, this.pack.levels.length - 1);
+    this.levelSelect.value = String(this.levelIndex);
+    this.showLevel();
+  }
+
+  private showLevel(): void {
+    const level = this.level;
+    this.durationInput.value = String(level.duration / 1000);
+    this.difficultyInput.value = String(level.difficulty);
+    this.themeSelect.value = level.theme;
+    this.kindSelect.value = level.kind;
+    this.catchSelect.value = level.catch ?? "";
+    this.densityInput.value = level.density === undefined ? "" : String(level.density);
+    this.powerUpsInput.value = level.powerUpsPerMinute === undefined ? "" : String(level.powerUpsPerMinute);
+    this.selected = null;
+    this.levelChanged();
+  }
+
+  // Optional settings left blank fall back to the generator defaults
+  private readLevelForm(): void {
+    const level = this.level;
+    level.duration = Number(this.durationInput.value) * 1000;
+    level.difficulty = Number(this.difficultyInput.value);
+    level.theme = this.themeSelect.value as LevelTheme;
+    level.kind = this.kindSelect.value as LevelKind;
+    if (this.catchSelect.value === "") {
+      delete level.catch;
+    } else {
+      level.catch = this.catchSelect.value as LevelKind;
+    }
+    if (this.densityInput.value === "") {
+      delete level.density;
+    } else {
+      level.density = Number(this.densityInput.value);
+    }
+    if (this.powerUpsInput.value === "") {
+      delete level.powerUpsPerMinute;
+    } else {
+      level.powerUpsPerMinute = Number(this.powerUpsInput.value);
+    }
+    this.levelChanged();
+  }
+
+  private levelChanged(): void {
+    this.previewTime.max = String(this.level.duration || 0);
+    this.timeline.height = ((this.level.duration || 0) / 1000) * TIMELINE_PX_PER_SECOND + TIMELINE_MARGIN * 2;
+    this.showProblems();
+    this.rebuildPreview();
+  }
+
+  private showProblems(): void {
+    const problems = validateLevelPack(this.pack);
+    this.problemsList.innerHTML = "";
+    problems.forEach((problem) => {
+      const item = document.createElement("li");
+      item.textContent = problem;
+      this.problemsList.appendChild(item);
+    });
+  }
+
+  // ---------- Spawns ----------
+
+  // The spawn the tool settings describe, placed at a time and x
+  private toolSpawn(time: number, x: number): SpawnDefinition {
+    const type = this.typeSelect.value as SpawnType;
+    const spawn: SpawnDefinition = { time, x, speed: Number(this.speedInput.value), type };
+    if (type === "powerUp") {
+      spawn.powerUp = this.powerUpSelect.value as PowerUpKind;
+      return spawn;
+    }
+    spawn.size = Number(this.sizeInput.value);
+    if (type === "emoji" && this.emojiInput.value) {
+      spawn.emoji = this.emojiInput.value;
+    }
+    const motion = this.motionSelect.value as MotionKind;
+    if (motion !== "straight") {
+      spawn.motion = { ...DEFAULT_MOTIONS[motion] };
+    }
+    return spawn;
+  }
+
+  private placeSpawns(time: number, x: number): void {
+    if (this.placementSelect.value === "wall") {
+      // A full row across the field, open around the clicked column
+      for (let column = X_SNAP; column < 1; column += X_SNAP) {
+        if (Math.abs(column - x) > WALL_GAP / 2) {
+          this.spawns.push(this.toolSpawn(time, Number(column.toFixed(3))));
+        }
+      }
+      this.selected = null;
+    } else {
+      this.spawns.push(this.toolSpawn(time, x));
+      this.selected = this.spawns.length - 1;
+    }
+    this.levelChanged();
+  }
+
+  // Tool settings follow the selected spawn, and edits to them apply to it
+  private showSelected(): void {
+    if (this.selected === null) {
+      return;
+    }
+    const spawn = this.spawns[this.selected];
+    this.typeSelect.value = spawn.type;
+    this.speedInput.value = String(spawn.speed);
+    if (spawn.powerUp) {
+      this.powerUpSelect.value = spawn.powerUp;
+    }
+    if (spawn.size !== undefined) {
+      this.sizeInput.value = String(spawn.size);
+    }
+    if (spawn.emoji) {
+      this.emojiInput.value = spawn.emoji;
+    }
+    this.motionSelect.value = spawn.motion?.kind ?? "straight";
+  }
+
+  private readSpawnForm(): void {
+    if (this.selected === null) {
+      return;
+    }
+    const old = this.spawns[this.selected];
+    const updated = this.toolSpawn(old.time, old.x);
+    // Keep hand-tuned motion parameters when the motion kind didn't change
+    if (old.motion && updated.motion?.kind === old.motion.kind) {
+      updated.motion = old.motion;
+    }
+    this.spawns[this.selected] = updated;
+    this.levelChanged();
+  }
+
+  private deleteSelected(): void {
+    if (this.selected === null) {
+      return;
+    }
+    this.spawns.splice(this.selected, 1);
+    this.selected = null;
+    this.levelChanged();
+  }
+
+  private spawnAt(px: number, py: number): number | null {
+    let best: number | null = null;
+    let bestDistance = PICK_RADIUS;
+    this.spawns.forEach((spawn, i) => {
+      const distance = Math.hypot(spawn.x * this.timeline.width - px, this.timeToY(spawn.time) - py);
+      if (distance <= bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  // ---------- Timeline ----------
+
+  private timeToY(ms: number): number {
+    return TIMELINE_MARGIN + (ms / 1000) * TIMELINE_PX_PER_SECOND;
+  }
+
+  private eventToSpawnPosition(e: MouseEvent): { px: number; py: number; time: number; x: number } {
+    const rect = this.timeline.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) * this.timeline.width) / rect.width;
+    const py = ((e.clientY - rect.top) * this.timeline.height) / rect.height;
+    const time = clamp(snap(((py - TIMELINE_MARGIN) / TIMELINE_PX_PER_SECOND) * 1000, TIME_SNAP_MS), 0, this.level.duration);
+    const x = clamp(Number(snap(px / this.timeline.width, X_SNAP).toFixed(3)), 0, 1);
+    return { px, py, time, x };
+  }
+
+  private renderTimeline(): void {
+    const ctx = this.timelineCtx;
+    const width = this.timeline.width;
+    const height = this.timeline.height;
+
+    ctx.fillStyle = "#11152a";
+    ctx.fillRect(0, 0, width, height);
+
+    // Grid: a line per second, columns every 10% of the field
+    ctx.strokeStyle = "rgba(255,255,255,0.08)";
+    ctx.lineWidth = 1;
+    for (let column = 0.1; column < 1; column += 0.1) {
+      ctx.beginPath();
+      ctx.moveTo(column * width, 0);
+      ctx.lineTo(column * width, height);
+      ctx.stroke();
+    }
+    ctx.fillStyle = "rgba(255,255,255,0.4)";
+    ctx.font = "10px Arial";
+    for (let second = 0; second * 1000 <= this.level.duration; second++) {
+      const y = this.timeToY(second * 1000);
+      ctx.strokeStyle = second % 5 === 0 ? "rgba(255,255,255,0.25)" : "rgba(255,255,255,0.08)";
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      ctx.fillText(`${second}s`, 2, y - 2);
+    }
+
+    // Generated objects, faded, for context
+    if (this.previewValid) {
+      ctx.fillStyle = "rgba(255,255,255,0.2)";
+      this.sim.levels[0].levelObjects.forEach((levelObject) => {
+        const obj = levelObject.createGameObject();
+        ctx.beginPath();
+        ctx.arc((obj.location.x / WORLD_WIDTH) * width, this.timeToY(levelObject.startTime), 3, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+
+    this.spawns.forEach((spawn, i) => {
+      const x = spawn.x * width;
+      const y = this.timeToY(spawn.time);
+      const radius = clamp((spawn.size ?? 36) / 4, 4, PICK_RADIUS);
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fillStyle = spawn.type === "powerUp" ? POWER_UP_INFO[spawn.powerUp ?? "shield"].color : TYPE_COLORS[spawn.type];
+      ctx.fill();
+      if (i === this.selected) {
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = "#ffffff";
+        ctx.stroke();
+      }
+      if (spawn.motion) {
+        ctx.fillStyle = "#ffffff";
+        ctx.fillText(spawn.motion.kind[0].toUpperCase(), x + radius + 2, y + 3);
+      }
+    });
+
+    // Playhead at the previewed time
+    const playheadY = this.timeToY(this.previewMs);
+    ctx.strokeStyle = "#ff5e5e";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(0, playheadY);
+    ctx.lineTo(width, playheadY);
+    ctx.stroke();
+
+    this.spawnCount.textContent = `(${this.spawns.length} spawns)`;
+  }
+
+  // ---------- Preview ----------
+
+  private rebuildPreview(): void {
+    const preview: LevelPack = { name: this.pack.name || "Preview", levels: [structuredClone(this.level)] };
+    this.previewValid = validateLevelPack(preview).length === 0;
+    if (this.previewValid) {
+      this.sim.stop();
+      this.sim.loadPack(preview);
+    }
+    this.scrubTo(Math.min(this.previewMs, this.level.duration || 0), true);
+  }
+
+  // Re-simulates from the level start when going backwards; forwards just keeps stepping
+  private scrubTo(ms: number, restart = false): void {
+    this.previewMs = ms;
+    this.previewTime.value = String(ms);
+    this.previewTimeLabel.textContent = `${(ms / 1000).toFixed(2)}s`;
+
+    if (this.previewValid) {
+      if (restart || ms < this.sim.levelElapsedMs) {
+        this.sim.start(Number(this.seedInput.value) >>> 0, 0);
+      }
+      while (this.sim.status === "RUNNING" && this.sim.levelElapsedMs + FIXED_STEP_MS <= ms) {
+        // Nothing can hit the preview player, so the level always plays out in full
+        this.sim.player.invulnerableMs = Number.POSITIVE_INFINITY;
+        this.sim.step(FIXED_STEP_MS / 1000, [NO_INPUT]);
+      }
+      this.renderer.render(this.sim, this.fireworks);
+    }
+    this.renderTimeline();
+  }
+
+  private togglePlay(): void {
+    this.playing = !this.playing;
+    this.playButton.textContent = this.playing ? "⏸️ Pause" : "▶️ Play";
+    if (this.playing) {
+      if (this.previewMs >= this.level.duration) {
+        this.scrubTo(0);
+      }
+      this.lastFrameTime = performance.now();
+      requestAnimationFrame(this.playLoop);
+    }
+  }
+
+  private playLoop = (timestamp: number): void => {
+    if (!this.playing) {
+      return;
+    }
+    const frameMs = Math.min(Math.max(0, timestamp - this.lastFrameTime), 250);
+    this.lastFrameTime = timestamp;
+    const next = Math.min(this.level.duration, this.previewMs + frameMs);
+    this.scrubTo(next);
+    if (next >= this.level.duration) {
+      this.togglePlay();
+      return;
+    }
+    requestAnimationFrame(this.playLoop);
+  };
+
+  // ---------- Files ----------
+
+  private savePack(): void {
+    this.pack.levels.forEach((level) => level.spawns?.sort((a, b) => a.time - b.time));
+    const blob = new Blob([JSON.stringify(this.pack, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${this.pack.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-") || "level-pack"}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private loadPackFile(): void {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = "application/json,.json";
+    fileInput.addEventListener("change", async () => {
+      const file = fileInput.files?.[0];
+      if (!file) {
+        return;
+      }
+      try {
+        this.pack = parseLevelPack(await file.text());
+        this.levelIndex = 0;
+        this.showPack();
+      } catch (error) {
+        alert(error instanceof Error ? error.message : String(error));
+      }
+    });
+    fileInput.click();
+  }
+
+  // ---------- Controls ----------
+
+  private initControls(): void {
+    element<HTMLButtonElement>("btn-new").addEventListener("click", () => {
+      this.pack = { name: "New Pack", levels: [emptyLevel()] };
+      this.levelIndex = 0;
+      this.showPack();
+    });
+    element<HTMLButtonElement>("btn-load").addEventListener("click", () => this.loadPackFile());
+    element<HTMLButtonElement>("btn-save").addEventListener("click", () => this.savePack());
+    this.playButton.addEventListener("click", () => this.togglePlay());
+
+    element<HTMLButtonElement>("btn-add-level").addEventListener("click", () => {
+      this.pack.levels.splice(this.levelIndex + 1, 0, emptyLevel());
+      this.levelIndex++;
+      this.showPack();
+    });
+    element<HTMLButtonElement>("btn-remove-level").addEventListener("click", () => {
+      if (this.pack.levels.length > 1) {
+        this.pack.levels.splice(this.levelIndex, 1);
+        this.showPack();
+      }
+    });
+    element<HTMLButtonElement>("btn-delete-spawn").addEventListener("click", () => this.deleteSelected());
+
+    this.packName.addEventListener("input", () => {
+      this.pack.name = this.packName.value;
+      this.showProblems();
+    });
+    this.levelSelect.addEventListener("change", () => {
+      this.levelIndex = Number(this.levelSelect.value);
+      this.showLevel();
+    });
+    [
+      this.durationInput,
+      this.difficultyInput,
+      this.themeSelect,
+      this.kindSelect,
+      this.catchSelect,
+      this.densityInput,
+      this.powerUpsInput,
+    ].forEach((input) => input.addEventListener("change", () => this.readLevelForm()));
+    this.seedInput.addEventListener("change", () => this.rebuildPreview());
+    [this.typeSelect, this.emojiInput, this.powerUpSelect, this.speedInput, this.sizeInput, this.motionSelect].forEach(
+      (input) => input.addEventListener("change", () => this.readSpawnForm())
+    );
+    this.previewTime.addEventListener("input", () => this.scrubTo(Number(this.previewTime.value)));
+
+    this.timeline.addEventListener("mousedown", (e) => {
+      const { px, py, time, x } = this.eventToSpawnPosition(e);
+      const hit = this.spawnAt(px, py);
+      if (hit !== null) {
+        this.selected = hit;
+        this.dragging = true;
+        this.showSelected();
+        this.renderTimeline();
+      } else {
+        this.placeSpawns(time, x);
+      }
+    });
+    this.timeline.addEventListener("mousemove", (e) => {
+      if (!this.dragging || this.selected === null) {
+        return;
+      }
+      const { time, x } = this.eventToSpawnPosition(e);
+      const spawn = this.spawns[this.selected];
+      if (spawn.time !== time || spawn.x !== x) {
+        spawn.time = time;
+        spawn.x = x;
+        this.renderTimeline();
+      }
+    });
+    window.addEventListener("mouseup", () => {
+      if (this.dragging) {
+        this.dragging = false;
+        this.levelChanged();
+      }
+    });
+    window.addEventListener("keydown", (e) => {
+      const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement;
+      if (!typing && (e.key === "Delete" || e.key === "Backspace")) {
+        e.preventDefault();
+        this.deleteSelected();
+      }
+    });
+  }
+}
+
+// ---------- Bootstrap ----------
+
+new LevelEditor();
@@ -0,0 +1,74 @@
+import type { GameField } from "./field";
+import { HazardSettings, LevelKind, LevelTheme, defaultObjectMix, drawHazard, drawPowerUp } from "./level";
+import type { Spawner } from "./modes";
+import { Random } from "./random";
+
+// ---------- Endless Mode ----------
+//
+// Instead of a precomputed level, objects are drawn one at a time as the run
+// goes on. Density, speed and motion variety all ramp with the time survived;
+// the scenery changes every THEME_PERIOD_MS. Draws come from one seeded
+// Random in spawn order, which is fixed by elapsed time, so runs replay exactly.
+
+const START_DIFFICULTY = 0.7;
+const DIFFICULTY_PER_SECOND = 1 / 45; // +1 difficulty every 45 s
+const START_RATE = 1.0; // objects per second
+const RATE_PER_SECOND = 0.03;
+const MAX_RATE = 8;
+const POWER_UP_INTERVAL_MS = 15000;
+const THEME_PERIOD_MS = 45000;
+
+const THEMES: [LevelTheme, LevelKind][] = [
+  ["night", "shapes"],
+  ["day", "animals"],
+  ["factory", "tools"],
+  ["ocean", "shapes"],
+  ["space", "animals"],
+];
+
+export function endlessDifficulty(elapsedMs: number): number {
+  return START_DIFFICULTY + (elapsedMs / 1000) * DIFFICULTY_PER_SECOND;
+}
+
+export class EndlessSpawner implements Spawner {
+  private rng: Random;
+  private nextSpawnMs = 500;
+  private nextPowerUpMs = POWER_UP_INTERVAL_MS;
+  private elapsedMs = 0;
+
+  constructor(seed: number) {
+    this.rng = new Random(seed);
+  }
+
+  get theme(): LevelTheme {
+    return this.stage[0];
+  }
+
+  private get stage(): [LevelTheme, LevelKind] {
+    return THEMES[Math.floor(this.elapsedMs / THEME_PERIOD_MS) % THEMES.length];
+  }
+
+  spawn(elapsedMs: number, field: GameField): void {
+    this.elapsedMs = elapsedMs;
+
+    while (this.nextSpawnMs <= elapsedMs) {
+      const difficulty = endlessDifficulty(this.nextSpawnMs);
+      const [theme, kind] = this.stage;
+      const settings: HazardSettings = { difficulty, mix: defaultObjectMix(theme, kind), kind };
+      field.addObject(drawHazard(this.rng, settings, field)());
+
+      const rate = Math.min(MAX_RATE, START_RATE + (this.nextSpawnMs / 1000) * RATE_PER_SECOND);
+      // Jittered so objects don't arrive on a metronome
+      this.nextSpawnMs += (1000 / rate) * this.rng.between(0.5, 1.5);
+    }
+
+    while (this.nextPowerUpMs <= elapsedMs) {
+      field.addObject(drawPowerUp(this.rng, field)());
+      this.nextPowerUpMs += POWER_UP_INTERVAL_MS;
+    }
+  }
+
+  isExhausted(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,47 @@
+import type { Point } from "./geometry";
+import type { GameObject } from "./objects";
+
+// ---------- Field ----------
+
+// Size of the field in world units, the same on every screen (see Viewport)
+export const WORLD_WIDTH = 800;
+export const WORLD_HEIGHT = 500;
+
+export class GameField {
+  width: number;
+  height: number;
+  gameObjects: GameObject[] = [];
+  players: GameObject[] = []; // what homing objects and bosses aim at
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  addObject(obj: GameObject): void {
+    this.gameObjects.push(obj);
+  }
+
+  // Far enough below the bottom edge that nothing drawn there is visible
+  hasLeft(location: Point): boolean {
+    return location.y - 100 > this.height;
+  }
+
+  // The closest player still in play, if any
+  nearestPlayer(location: Point): GameObject | null {
+    let nearest: GameObject | null = null;
+    let nearestDistance = Infinity;
+    for (const player of this.players) {
+      const distance = Math.hypot(player.location.x - location.x, player.location.y - location.y);
+      if (player.isAlive && distance < nearestDistance) {
+        nearest = player;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  removeDead(): void {
+    this.gameObjects = this.gameObjects.filter((o) => o.isAlive);
+  }
+}
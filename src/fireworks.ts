@@ -0,0 +1,68 @@
+import { Random } from "./random";
+
+// ---------- Fireworks ----------
+
+interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  maxLife: number;
+  color: string;
+}
+
+export class Fireworks {
+  private particles: Particle[] = [];
+
+  constructor(private rng: Random) {}
+
+  createExplosion(x: number, y: number, count: number = 50): void {
+    const colors = ["#ff0000", "#00ff00", "#0000ff", "#ffff00", "#ff00ff", "#00ffff", "#ffffff"];
+    
+    for (let i = 0; i < count; i++) {
+      const angle = (Math.PI * 2 * i) / count;
+      const speed = this.rng.between(150, 350);
+      const vx = Math.cos(angle) * speed;
+      const vy = Math.sin(angle) * speed;
+      
+      this.particles.push({
+        x,
+        y,
+        vx,
+        vy,
+        life: 1,
+        maxLife: this.rng.between(0.8, 1.5),
+        color: this.rng.choice(colors),
+      });
+    }
+  }
+
+  update(deltaSeconds: number): void {
+    this.particles.forEach((p) => {
+      p.x += p.vx * deltaSeconds;
+      p.y += p.vy * deltaSeconds;
+      p.vy += 300 * deltaSeconds; // gravity
+      p.life -= deltaSeconds;
+    });
+
+    this.particles = this.particles.filter((p) => p.life > 0);
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    this.particles.forEach((p) => {
+      const alpha = Math.max(0, p.life / p.maxLife);
+      ctx.save();
+      ctx.globalAlpha = alpha;
+      ctx.fillStyle = p.color;
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 3, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.restore();
+    });
+  }
+
+  hasParticles(): boolean {
+    return this.particles.length > 0;
+  }
+}
@@ -0,0 +1,31 @@
+// ---------- Basic Types ----------
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ---------- Utility ----------
+
+export function interpolate(from: Point, to: Point, alpha: number): Point {
+  return {
+    x: from.x + (to.x - from.x) * alpha,
+    y: from.y + (to.y - from.y) * alpha,
+  };
+}
+
+export function boundsIntersect(a: Bounds, b: Bounds): boolean {
+  return (
+    a.x < b.x + b.width &&
+    a.x + a.width > b.x &&
+    a.y < b.y + b.height &&
+    a.y + a.height > b.y
+  );
+}
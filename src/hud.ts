@@ -0,0 +1,308 @@
+import { DAILY_LEVEL_COUNT, DailyResult, dailyStreak, recentDays } from "./daily";
+import { POWER_UP_INFO, PowerUpKind } from "./powerups";
+import type { LevelScore, ScoreKeeper } from "./scoring";
+import type { GameStorage } from "./storage";
+
+// ---------- HUD ----------
+//
+// DOM side of the game: status labels, progress bar and overlays.
+
+// m:ss.s, for survival times and time budgets
+function formatSurvival(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = ((ms % 60000) / 1000).toFixed(1).padStart(4, "0");
+  return `${minutes}:${seconds}`;
+}
+
+const CALENDAR_DAYS = 28; // four weeks
+const LEVEL_INTRO_MS = 2500;
+const TOAST_MS = 3000;
+
+// "P1 a • P2 b" with two players, just the text with one
+function tagPlayers(texts: string[]): string {
+  return texts.length > 1 ? texts.map((text, i) => `P${i + 1} ${text}`).join(" • ") : texts[0];
+}
+
+function levelBreakdown(score: LevelScore): string[] {
+  return [
+    `Survival: ${score.survival}`,
+    `Dodged (${score.dodgedCount}): ${score.dodged}`,
+    `Near misses (${score.nearMissCount}, best streak ${score.bestStreak}): ${score.nearMiss}`,
+    ...(score.caughtCount > 0 ? [`Caught (${score.caughtCount}, missed ${score.missedCount}): ${score.caught}`] : []),
+    ...(score.penalty > 0 ? [`Penalties: -${score.penalty}`] : []),
+    `Level total: ${score.total}`,
+  ];
+}
+
+export class Hud {
+  private statusLabel = document.getElementById("status") as HTMLDivElement;
+  private objectsLabel = document.getElementById("objects") as HTMLDivElement;
+  private timeLabel = document.getElementById("time") as HTMLDivElement;
+  private livesLabel = document.getElementById("lives") as HTMLDivElement;
+  private scoreLabel = document.getElementById("score") as HTMLDivElement;
+  private powerUpsLabel = document.getElementById("power-ups") as HTMLDivElement;
+  private missesLabel = document.getElementById("misses") as HTMLDivElement;
+  private levelIntro = document.getElementById("level-intro") as HTMLDivElement;
+  private levelIntroTitle = document.getElementById("level-intro-title") as HTMLDivElement;
+  private levelIntroRule = document.getElementById("level-intro-rule") as HTMLDivElement;
+  private levelIntroTimer = 0;
+  private toast = document.getElementById("toast") as HTMLDivElement;
+  private countdown = document.getElementById("countdown") as HTMLDivElement;
+  private toastTimer = 0;
+  private progressFill = document.getElementById("progress-fill") as HTMLDivElement;
+  private gameOverOverlay = document.getElementById("game-over-overlay") as HTMLDivElement;
+  private levelPassedOverlay = document.getElementById("level-passed-overlay") as HTMLDivElement;
+  private levelPassedText = document.getElementById("level-passed-text") as HTMLDivElement;
+  private levelPassedScore = document.getElementById("level-passed-score") as HTMLDivElement;
+  private levelPassedHint = document.getElementById("level-passed-hint") as HTMLDivElement;
+  private nextLevelButton = document.getElementById("btn-next-level") as HTMLButtonElement;
+  private levelPassedModesButton = document.getElementById("btn-modes-level-passed") as HTMLButtonElement;
+  private gameOverScore = document.getElementById("game-over-score") as HTMLDivElement;
+  private welcomeOverlay = document.getElementById("welcome-overlay") as HTMLDivElement;
+  private highScoresOverlay = document.getElementById("high-scores-overlay") as HTMLDivElement;
+  private highScoresList = document.getElementById("high-scores-list") as HTMLOListElement;
+  private endlessScoresList = document.getElementById("endless-scores-list") as HTMLOListElement;
+  private highScoresSummary = document.getElementById("high-scores-summary") as HTMLDivElement;
+  private bestTimesLabel = document.getElementById("best-times") as HTMLDivElement;
+  private dailyCalendar = document.getElementById("daily-calendar") as HTMLDivElement;
+  private dailySummary = document.getElementById("daily-summary") as HTMLDivElement;
+  private continueButtons = [
+    document.getElementById("btn-continue-welcome") as HTMLButtonElement,
+    document.getElementById("btn-continue-game-over") as HTMLButtonElement,
+  ];
+  private levelSelectOverlay = document.getElementById("level-select-overlay") as HTMLDivElement;
+  private levelSelectGrid = document.getElementById("level-select-grid") as HTMLDivElement;
+
+  setStatus(text: string): void {
+    this.statusLabel.textContent = `Status: ${text}`;
+  }
+
+  // totalMs is null when play has no set length (endless); timeLeftMs is the run's budget, if any
+  update(objectsCount: number, elapsedMs: number, totalMs: number | null, timeLeftMs: number | null = null): void {
+    this.objectsLabel.textContent = `Objects: ${objectsCount}`;
+
+    if (totalMs === null) {
+      this.timeLabel.textContent = `Survived: ${formatSurvival(elapsedMs)}`;
+      this.progressFill.style.width = "0%";
+      return;
+    }
+
+    const elapsedSeconds = elapsedMs / 1000;
+    const totalSeconds = totalMs / 1000;
+    this.timeLabel.textContent = `Time: ${elapsedSeconds.toFixed(2)}s / ${totalSeconds.toFixed(
+      2
+    )}s`;
+    if (timeLeftMs !== null) {
+      this.timeLabel.textContent += ` • ⏱ ${formatSurvival(timeLeftMs)} left`;
+    }
+
+    const progress = totalMs > 0 ? Math.min(1, elapsedMs / totalMs) : 0;
+    this.progressFill.style.width = `${progress * 100}%`;
+  }
+
+  // One entry per player; with two players each is tagged P1 / P2
+  setLives(lives: number[]): void {
+    const hearts = lives.map((count) => "❤️".repeat(Math.max(0, count)));
+    this.livesLabel.textContent = `Lives: ${tagPlayers(hearts)}`;
+  }
+
+  setScore(scores: ScoreKeeper[]): void {
+    const texts = scores.map(({ total, multiplier }) => (multiplier > 1 ? `${total} (x${multiplier})` : `${total}`));
+    this.scoreLabel.textContent = `Score: ${tagPlayers(texts)}`;
+  }
+
+  // null clears the label, for modes where misses don't count
+  setMissesLeft(missesLeft: number | null): void {
+    this.missesLabel.textContent = missesLeft === null ? "" : `Misses left: ${missesLeft}`;
+  }
+
+  // Icons of each player's active power-ups, with seconds left for the timed ones
+  setPowerUps(perPlayer: { kind: PowerUpKind; remainingMs: number | null }[][]): void {
+    const texts = perPlayer.map((active) =>
+      active
+        .map(({ kind, remainingMs }) => {
+          const icon = POWER_UP_INFO[kind].icon;
+          return remainingMs === null ? icon : `${icon} ${Math.ceil(remainingMs / 1000)}s`;
+        })
+        .join("  ")
+    );
+    this.powerUpsLabel.textContent = texts.every((text) => text === "") ? "" : tagPlayers(texts);
+  }
+
+  showGameOver(finalScore: number, survivedMs: number | null = null, levelsCleared: number | null = null): void {
+    if (survivedMs !== null) {
+      this.gameOverScore.textContent = `Survived ${formatSurvival(survivedMs)} • Final score: ${finalScore}`;
+    } else if (levelsCleared !== null) {
+      this.gameOverScore.textContent = `Levels cleared: ${levelsCleared} • Final score: ${finalScore}`;
+    } else {
+      this.gameOverScore.textContent = `Final score: ${finalScore}`;
+    }
+    this.gameOverOverlay.classList.remove("hidden");
+  }
+
+  // Versus result: who won, with both scores
+  showVersusResult(winner: number | null, scores: number[]): void {
+    const result = winner === null ? "Draw!" : `🏆 Player ${winner + 1} wins!`;
+    this.gameOverScore.textContent = `${result} • ${tagPlayers(scores.map(String))}`;
+    this.gameOverOverlay.classList.remove("hidden");
+  }
+
+  // A full breakdown alone; one summary line per player with two. After the last level there is
+  // no next one, only the way back to the modes.
+  showLevelPassed(text: string, scores: LevelScore[], isLastLevel = false): void {
+    this.levelPassedText.textContent = text;
+    this.levelPassedHint.classList.toggle("hidden", isLastLevel);
+    this.nextLevelButton.classList.toggle("hidden", isLastLevel);
+    this.levelPassedModesButton.classList.toggle("hidden", !isLastLevel);
+
+    const lines =
+      scores.length > 1
+        ? scores.map((s, i) => `P${i + 1}: ${s.total} (dodged ${s.dodgedCount}, near misses ${s.nearMissCount})`)
+        : levelBreakdown(scores[0]);
+    this.levelPassedScore.replaceChildren(
+      ...lines.map((text) => {
+        const line = document.createElement("div");
+        line.textContent = text;
+        return line;
+      })
+    );
+
+    this.levelPassedOverlay.classList.remove("hidden");
+  }
+
+  // Banner over the field that fades on its own
+  showLevelIntro(title: string, rule: string): void {
+    this.levelIntroTitle.textContent = title;
+    this.levelIntroRule.textContent = rule;
+    this.levelIntro.classList.remove("hidden");
+    clearTimeout(this.levelIntroTimer);
+    this.levelIntroTimer = window.setTimeout(() => this.levelIntro.classList.add("hidden"), LEVEL_INTRO_MS);
+  }
+
+  // Short notice in a corner, e.g. a gamepad plugged in
+  showToast(text: string): void {
+    this.toast.textContent = text;
+    this.toast.classList.remove("hidden");
+    clearTimeout(this.toastTimer);
+    this.toastTimer = window.setTimeout(() => this.toast.classList.add("hidden"), TOAST_MS);
+  }
+
+  // Big number over the field while a paused run gets ready to go on
+  showCountdown(seconds: number): void {
+    this.countdown.textContent = String(seconds);
+    this.countdown.classList.remove("hidden");
+    // Restarts the pop-in animation for every number
+    this.countdown.style.animation = "none";
+    void this.countdown.offsetWidth;
+    this.countdown.style.animation = "";
+  }
+
+  hideCountdown(): void {
+    this.countdown.classList.add("hidden");
+  }
+
+  hideLevelPassed(): void {
+    this.levelPassedOverlay.classList.add("hidden");
+  }
+
+  hideOverlays(): void {
+    this.gameOverOverlay.classList.add("hidden");
+    this.levelPassedOverlay.classList.add("hidden");
+    this.levelIntro.classList.add("hidden");
+    this.countdown.classList.add("hidden");
+  }
+
+  hideWelcome(): void {
+    this.welcomeOverlay.classList.add("hidden");
+  }
+
+  showWelcome(): void {
+    this.welcomeOverlay.classList.remove("hidden");
+  }
+
+  showHighScores(storage: GameStorage): void {
+    this.highScoresSummary.textContent =
+      storage.furthestLevel > 0 ? `Furthest level: ${storage.furthestLevel}` : "No runs yet - go set a record!";
+
+    const times = storage.bestLevelTimes.map(([level, ms]) => `L${level} ${(ms / 1000).toFixed(2)}s`);
+    this.bestTimesLabel.textContent = times.length > 0 ? `Best times: ${times.join(" • ")}` : "";
+
+    this.highScoresList.replaceChildren(
+      ...storage.highScores.map((entry) => {
+        const item = document.createElement("li");
+        const date = new Date(entry.date).toLocaleDateString();
+        item.textContent = `${entry.score} pts • Level ${entry.level} • ${date} • seed ${entry.seed}`;
+        return item;
+      })
+    );
+    this.endlessScoresList.replaceChildren(
+      ...storage.endlessScores.map((entry) => {
+        const item = document.createElement("li");
+        const date = new Date(entry.date).toLocaleDateString();
+        item.textContent = `${formatSurvival(entry.timeMs)} • ${entry.score} pts • ${date} • seed ${entry.seed}`;
+        return item;
+      })
+    );
+
+    this.highScoresOverlay.classList.remove("hidden");
+  }
+
+  hideHighScores(): void {
+    this.highScoresOverlay.classList.add("hidden");
+  }
+
+  // null hides the "Continue" buttons (nothing beyond level 1 reached yet)
+  setContinueLevel(levelNumber: number | null): void {
+    this.continueButtons.forEach((button) => {
+      button.classList.toggle("hidden", levelNumber === null);
+      button.textContent = `Continue from level ${levelNumber ?? 1}`;
+    });
+  }
+
+  // Last four weeks of daily challenges: ✓ played, ★ beaten, today outlined
+  showDailyCalendar(results: Record<string, DailyResult>, today: string): void {
+    const cells = recentDays(today, CALENDAR_DAYS).map((day) => {
+      const result = results[day];
+      const cell = document.createElement("div");
+      cell.className = "daily-day";
+      cell.classList.toggle("played", result !== undefined);
+      cell.classList.toggle("today", day === today);
+      if (result) {
+        cell.textContent = result.levelsCleared >= DAILY_LEVEL_COUNT ? "★" : "✓";
+        cell.title = `${day}: ${result.score} pts, ${result.levelsCleared}/${DAILY_LEVEL_COUNT} levels`;
+      } else {
+        cell.textContent = day.slice(8); // day of the month
+        cell.title = day === today ? `${day}: not played yet` : `${day}: missed`;
+      }
+      return cell;
+    });
+    this.dailyCalendar.replaceChildren(...cells);
+
+    const streak = dailyStreak(results, today);
+    const best = results[today];
+    const todayText = best
+      ? `Today: ${best.score} pts, ${best.levelsCleared}/${DAILY_LEVEL_COUNT} levels`
+      : "Not played today";
+    this.dailySummary.textContent = streak > 0 ? `🔥 ${streak}-day streak • ${todayText}` : todayText;
+  }
+
+  showLevelSelect(levelCount: number, unlockedCount: number, onPick: (levelIndex: number) => void): void {
+    const buttons: HTMLButtonElement[] = [];
+    for (let i = 0; i < levelCount; i++) {
+      const button = document.createElement("button");
+      const locked = i >= unlockedCount;
+      button.className = "level-select-btn";
+      button.textContent = locked ? "🔒" : String(i + 1);
+      button.title = locked ? `Level ${i + 1} (locked)` : `Level ${i + 1}`;
+      button.disabled = locked;
+      button.addEventListener("click", () => onPick(i));
+      buttons.push(button);
+    }
+    this.levelSelectGrid.replaceChildren(...buttons);
+    this.levelSelectOverlay.classList.remove("hidden");
+  }
+
+  hideLevelSelect(): void {
+    this.levelSelectOverlay.classList.add("hidden");
+  }
+}
@@ -0,0 +1,192 @@
+import {
+  ACTIONS,
+  Action,
+  Bindings,
+  Command,
+  DEFAULT_BINDINGS,
+  Direction,
+  MOVES,
+  TouchScheme,
+  normalizeKey,
+} from "./controls";
+import type { Point } from "./geometry";
+import type { MovementInput } from "./simulation";
+import { TouchInput } from "./touch";
+
+// ---------- Input ----------
+//
+// Keyboard, mouse, touch and gamepads all feed one InputManager, which turns
+// what is held right now into a MovementInput per player for every
+// simulation step. Neither the Simulation nor replays know which device moved
+// a paddle. Keys go through the player's bindings first.
+
+type HeldKeys = Record<Direction, boolean>;
+
+// Standard gamepad layout
+const BUTTON_SELECT = 8;
+const BUTTON_START = 9;
+const DPAD_BUTTONS: [number, Direction][] = [
+  [12, "up"],
+  [13, "down"],
+  [14, "left"],
+  [15, "right"],
+];
+const STICK_DEAD_ZONE = 0.2;
+// Stick positions are rounded to this step, so a resting thumb doesn't record a new replay frame every tick
+const STICK_STEP = 0.05;
+
+export type GamepadAction = "start" | "select";
+
+function noKeysHeld(): HeldKeys {
+  return { left: false, right: false, up: false, down: false };
+}
+
+function eitherHeld(a: HeldKeys, b: HeldKeys): HeldKeys {
+  return { left: a.left || b.left, right: a.right || b.right, up: a.up || b.up, down: a.down || b.down };
+}
+
+// Left stick as a share of full speed per axis, null inside the dead zone
+function readStick(gamepad: Gamepad): Point | null {
+  const x = gamepad.axes[0] ?? 0;
+  const y = gamepad.axes[1] ?? 0;
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= STICK_DEAD_ZONE) {
+    return null;
+  }
+  // Rescaled so speed starts from zero at the edge of the dead zone and never exceeds full speed
+  const scale = Math.min(1, (magnitude - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE)) / magnitude;
+  const round = (value: number) => Math.round((value * scale) / STICK_STEP) * STICK_STEP;
+  return { x: round(x), y: round(y) };
+}
+
+function readDpad(gamepad: Gamepad): HeldKeys {
+  const held = noKeysHeld();
+  for (const [button, direction] of DPAD_BUTTONS) {
+    held[direction] = gamepad.buttons[button]?.pressed ?? false;
+  }
+  return held;
+}
+
+// What one gamepad asked for at the last poll
+interface PadState {
+  index: number;
+  stick: Point | null;
+  dpad: HeldKeys;
+  start: boolean;
+  select: boolean;
+}
+
+export class InputManager {
+  onGamepadAction: (action: GamepadAction) => void = () => {};
+  onGamepadConnection: (index: number, connected: boolean) => void = () => {};
+  onCommand: (command: Command) => void = () => {};
+  readonly touch = new TouchInput();
+
+  private keyActions = new Map<string, Action[]>();
+  private keysHeld = [noKeysHeld(), noKeysHeld()]; // per player's movement keys
+  private pads: PadState[] = []; // connected gamepads, in connection order
+  private pollFrameId = 0;
+
+  constructor(bindings: Bindings = DEFAULT_BINDINGS, touchScheme: TouchScheme = "drag") {
+    this.setBindings(bindings);
+    this.touch.scheme = touchScheme;
+    window.addEventListener("gamepadconnected", (e) => this.connect(e.gamepad));
+    window.addEventListener("gamepaddisconnected", (e) => this.disconnect(e.gamepad));
+  }
+
+  setBindings(bindings: Bindings): void {
+    this.keyActions.clear();
+    for (const action of ACTIONS) {
+      for (const key of bindings[action]) {
+        this.keyActions.set(key, [...(this.keyActions.get(key) ?? []), action]);
+      }
+    }
+    // A key that was rebound while held would otherwise never be released
+    this.releaseAll();
+  }
+
+  // Commands fire on the first press, not on key repeat; returns whether the key is bound
+  setKey(key: string, held: boolean, repeat = false): boolean {
+    const actions = this.keyActions.get(normalizeKey(key)) ?? [];
+    for (const action of actions) {
+      const move = MOVES[action];
+      if (move) {
+        const [player, direction] = move;
+        this.keysHeld[player][direction] = held;
+      } else if (held && !repeat) {
+        this.onCommand(action as Command);
+      }
+    }
+    return actions.length > 0;
+  }
+
+  // Forgets everything held: keys released while the page had no focus never send a keyup
+  releaseAll(): void {
+    this.keysHeld = [noKeysHeld(), noKeysHeld()];
+    this.touch.clear();
+  }
+
+  // One input per player. Alone, every device drives the paddle; with two players, player one has
+  // their keys, the mouse and the first gamepad, player two their keys and the second gamepad.
+  // A mouse drag or a finger on the screen steers over a gamepad's stick.
+  read(playerCount: number): MovementInput[] {
+    if (playerCount === 1) {
+      const keys = eitherHeld(this.keysHeld[0], this.keysHeld[1]);
+      const held = this.pads.reduce((all, pad) => eitherHeld(all, pad.dpad), keys);
+      const stick = this.touch.stick(0) ?? this.pads.find((pad) => pad.stick !== null)?.stick ?? null;
+      return [{ ...held, stick }];
+    }
+    return this.keysHeld.map((keys, i) => {
+      const pad = this.pads[i];
+      return {
+        ...(pad ? eitherHeld(keys, pad.dpad) : keys),
+        stick: this.touch.stick(i) ?? pad?.stick ?? null,
+      };
+    });
+  }
+
+  private connect(gamepad: Gamepad): void {
+    this.pads.push({ index: gamepad.index, stick: null, dpad: noKeysHeld(), start: false, select: false });
+    this.onGamepadConnection(gamepad.index, true);
+    if (this.pads.length === 1) {
+      this.poll();
+    }
+  }
+
+  private disconnect(gamepad: Gamepad): void {
+    this.pads = this.pads.filter((pad) => pad.index !== gamepad.index);
+    this.onGamepadConnection(gamepad.index, false);
+  }
+
+  // Gamepads have no events for sticks and buttons, so they are polled every frame while any is connected
+  private poll = (): void => {
+    if (this.pads.length === 0) {
+      cancelAnimationFrame(this.pollFrameId);
+      return;
+    }
+
+    const gamepads = navigator.getGamepads();
+    for (const pad of this.pads) {
+      const gamepad = gamepads[pad.index];
+      if (!gamepad) {
+        continue;
+      }
+      pad.stick = readStick(gamepad);
+      pad.dpad = readDpad(gamepad);
+
+      // Actions fire once per press
+      const start = gamepad.buttons[BUTTON_START]?.pressed ?? false;
+      const select = gamepad.buttons[BUTTON_SELECT]?.pressed ?? false;
+      if (start && !pad.start) {
+        this.onGamepadAction("start");
+      }
+      if (select && !pad.select) {
+        this.onGamepadAction("select");
+      }
+      pad.start = start;
+      pad.select = select;
+    }
+
+    this.pollFrameId = requestAnimationFrame(this.poll);
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { GameField, WORLD_HEIGHT, WORLD_WIDTH } from "./field";
+import { Level, generateCampaign, generateLevel } from "./level";
+import { DEFAULT_LEVEL_PACK } from "./levelpack";
+import { Random, deriveSeed } from "./random";
+
+// What a level will spawn, in order: when, what and where
+function schedule(level: Level) {
+  return level.levelObjects.map((levelObject) => {
+    const obj = levelObject.createGameObject();
+    return {
+      time: levelObject.startTime,
+      type: obj.constructor.name,
+      role: obj.role,
+      location: obj.location,
+      speed: obj.speed,
+    };
+  });
+}
+
+const field = new GameField(WORLD_WIDTH, WORLD_HEIGHT);
+
+describe("generateLevel", () => {
+  const definition = DEFAULT_LEVEL_PACK.levels[12];
+
+  it("lays out the same schedule for the same seed", () => {
+    const a = generateLevel(definition, field, new Random(1234));
+    const b = generateLevel(definition, field, new Random(1234));
+    expect(a.levelObjects.length).toBeGreaterThan(0);
+    expect(schedule(a)).toEqual(schedule(b));
+  });
+
+  it("lays out another schedule for another seed", () => {
+    const a = generateLevel(definition, field, new Random(1234));
+    const b = generateLevel(definition, field, new Random(4321));
+    expect(schedule(a)).not.toEqual(schedule(b));
+  });
+
+  it("doesn't depend on the order objects are built in", () => {
+    const level = generateLevel(definition, field, new Random(99));
+    const forwards = schedule(level);
+    const backwards = level.levelObjects
+      .slice()
+      .reverse()
+      .map((levelObject) => levelObject.createGameObject().location);
+    expect(backwards.reverse()).toEqual(forwards.map((entry) => entry.location));
+  });
+});
+
+describe("generateCampaign", () => {
+  it("lays out every level the same for the same seed", () => {
+    const a = generateCampaign(DEFAULT_LEVEL_PACK, 777, field);
+    const b = generateCampaign(DEFAULT_LEVEL_PACK, 777, field);
+    expect(a).toHaveLength(DEFAULT_LEVEL_PACK.levels.length);
+    a.forEach((level, i) => expect(schedule(level)).toEqual(schedule(b[i])));
+  });
+
+  it("seeds each level on its own, so level N doesn't depend on the levels before it", () => {
+    const campaign = generateCampaign(DEFAULT_LEVEL_PACK, 777, field);
+    const alone = generateLevel(DEFAULT_LEVEL_PACK.levels[30], field, new Random(deriveSeed(777, 30)));
+    expect(schedule(campaign[30])).toEqual(schedule(alone));
+  });
+});
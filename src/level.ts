@@ -0,0 +1,282 @@
+import { Random, deriveSeed } from "./random";
+import { Boss, DEFAULT_BOSS_PHASES } from "./boss";
+import type { GameField } from "./field";
+import type { Point } from "./geometry";
+import type { LevelDefinition, LevelPack, SpawnDefinition } from "./levelpack";
+import { MotionKind, MotionSpec, createMotion } from "./motion";
+import { POWER_UP_KINDS } from "./powerups";
+import {
+  BaseFallingObject,
+  FallingCircle,
+  FallingDiamondObject,
+  FallingEmojiObject,
+  FallingPowerUp,
+  FallingStarObject,
+  GameObject,
+  ObjectRole,
+  RotatingFallingSquare,
+  RotatingFallingTriangle,
+} from "./objects";
+
+// ---------- Level, LevelObject ----------
+
+export class LevelObject {
+  constructor(
+    public startTime: number, // ms after level start
+    private factory: () => GameObject
+  ) {}
+
+  createGameObject(): GameObject {
+    return this.factory();
+  }
+}
+
+export type LevelTheme = "night" | "day" | "factory" | "ocean" | "space";
+export type LevelKind = "shapes" | "animals" | "tools";
+export type ObjectType = "circle" | "square" | "triangle" | "emoji" | "star" | "diamond";
+
+export const LEVEL_THEMES: LevelTheme[] = ["night", "day", "factory", "ocean", "space"];
+export const LEVEL_KINDS: LevelKind[] = ["shapes", "animals", "tools"];
+export const OBJECT_TYPES: ObjectType[] = ["circle", "square", "triangle", "emoji", "star", "diamond"];
+
+export class Level {
+  constructor(
+    public difficulty: number,
+    public duration: number, // ms
+    public levelObjects: LevelObject[],
+    public theme: LevelTheme,
+    public kind: LevelKind,
+    public powerUpsPerMinute: number = 0,
+    public catchKind: LevelKind | null = null // objects of this kind are caught, the rest dodged
+  ) {}
+}
+
+// ---------- Level Generator ----------
+
+// Difficulty from which each motion pattern can show up
+const MOTION_UNLOCKS: [MotionKind, number][] = [
+  ["sine", 0.85],
+  ["gravity", 0.95],
+  ["bounce", 1.0],
+  ["homing", 1.3],
+  ["split", 1.6],
+];
+
+// Straight falls get rarer as difficulty rises, up to 3 in 4 objects doing something else.
+// A level definition can pin both the allowed patterns and the share.
+function pickMotion(difficulty: number, rng: Random, allowed?: MotionKind[], chance?: number): MotionSpec {
+  const unlocked = (allowed ?? MOTION_UNLOCKS.filter(([, from]) => difficulty >= from).map(([kind]) => kind)).filter(
+    (kind) => kind !== "straight"
+  );
+  const roll = rng.next();
+  if (unlocked.length === 0 || roll >= (chance ?? Math.min(0.75, (difficulty - 0.7) * 0.6))) {
+    return { kind: "straight" };
+  }
+
+  const kind = rng.choice(unlocked);
+  switch (kind) {
+    case "sine":
+      return {
+        kind,
+        amplitude: rng.between(30, 80),
+        frequency: rng.between(0.3, 0.8),
+        phase: rng.between(0, Math.PI * 2),
+      };
+    case "gravity":
+      return { kind, acceleration: rng.between(200, 320) + difficulty * 40 };
+    case "bounce":
+      return { kind, speedX: (rng.next() < 0.5 ? -1 : 1) * (rng.between(80, 160) + difficulty * 20) };
+    case "homing":
+      return { kind, turnRate: 80 + difficulty * 30, maxSpeedX: 60 + difficulty * 25 };
+    default:
+      return {
+        kind: "split",
+        atHeight: rng.between(0.25, 0.5),
+        pieces: difficulty >= 2.5 ? 3 : 2,
+        spread: rng.between(80, 150),
+      };
+  }
+}
+
+const ANIMAL_EMOJIS = ["🐶", "🐱", "🦊", "🐻", "🐰", "🦁", "🐼"];
+const TOOL_EMOJIS = ["🔧", "🛠", "⚙", "🔩", "🪚", "🔨", "🪛"];
+const SHAPE_COLORS = ["#ff9f80", "#ffdf6e", "#85e3ff", "#baffc9"];
+const DEFAULT_DENSITY = 1.5;
+// Share of a mixed level's objects that are to be caught
+const CATCH_SHARE = 0.4;
+const DEFAULT_SPAWN_SIZE = 36;
+
+// Objects that look like the kind, whatever the theme
+function kindMix(kind: LevelKind): ObjectType[] {
+  return kind === "shapes" ? ["circle", "square", "triangle"] : ["emoji"];
+}
+
+// What falls when a level doesn't list its own object mix
+export function defaultObjectMix(theme: LevelTheme, kind: LevelKind): ObjectType[] {
+  if (theme === "space") {
+    return ["star"];
+  } else if (theme === "ocean") {
+    return ["diamond"];
+  }
+  return kindMix(kind);
+}
+
+function createFallingObject(
+  type: ObjectType,
+  location: Point,
+  speed: number,
+  size: number,
+  color: string,
+  emoji: string,
+  angularSpeed: number
+): BaseFallingObject {
+  const borderColor = "#ffffff";
+  switch (type) {
+    case "circle":
+      return new FallingCircle(location, speed, size / 2, color, borderColor);
+    case "square":
+      return new RotatingFallingSquare(location, speed, size, color, borderColor, angularSpeed);
+    case "triangle":
+      return new RotatingFallingTriangle(location, speed, size, color, borderColor, angularSpeed);
+    case "emoji":
+      return new FallingEmojiObject(location, speed, size, emoji);
+    case "star":
+      return new FallingStarObject(location, speed, size / 2);
+    case "diamond":
+      return new FallingDiamondObject(location, speed, size / 2);
+  }
+}
+
+function handcraftedObject(spawn: SpawnDefinition, kind: LevelKind, field: GameField): LevelObject {
+  const x = spawn.x * field.width;
+  if (spawn.type === "powerUp") {
+    const powerUpKind = spawn.powerUp ?? "shield";
+    return new LevelObject(spawn.time, () => new FallingPowerUp({ x, y: -30 }, spawn.speed, powerUpKind));
+  }
+
+  const type = spawn.type;
+  const size = spawn.size ?? DEFAULT_SPAWN_SIZE;
+  const color = spawn.color ?? SHAPE_COLORS[0];
+  const emoji = spawn.emoji ?? (kind === "animals" ? ANIMAL_EMOJIS : TOOL_EMOJIS)[0];
+  const motion: MotionSpec = spawn.motion ?? { kind: "straight" };
+  const speed = motion.kind === "gravity" ? spawn.speed * 0.4 : spawn.speed;
+
+  return new LevelObject(spawn.time, () => {
+    const obj = createFallingObject(type, { x, y: -size }, speed, size, color, emoji, 1.5);
+    obj.motion = createMotion(motion);
+    return obj;
+  });
+}
+
+// Settings that shape randomly drawn hazards
+export interface HazardSettings {
+  difficulty: number;
+  mix: ObjectType[];
+  kind: LevelKind;
+  motions?: MotionKind[];
+  motionChance?: number;
+  role?: ObjectRole; // "collectible" for the objects to catch on mixed levels
+}
+
+// Draws everything about one random hazard up front and returns the factory that builds it.
+// Every random choice is made here rather than inside the factory,
+// so the schedule is fixed by the seed and not by spawn order.
+export function drawHazard(rng: Random, settings: HazardSettings, field: GameField): () => BaseFallingObject {
+  const { difficulty, mix, kind } = settings;
+  const x = rng.between(40, field.width - 40);
+  const startY = rng.between(-200, -40);
+  // Speed increases with difficulty - faster falling objects
+  const minSpeed = 80 + difficulty * 30;
+  const maxSpeed = 190 + difficulty * 60;
+  const baseSpeed = rng.between(minSpeed, maxSpeed);
+  const size = rng.between(28, 48);
+
+  const type = rng.choice(mix);
+  const color = rng.choice(SHAPE_COLORS);
+  const angularSpeed = rng.between(-2.5, 2.5);
+  const emoji = rng.choice(kind === "animals" ? ANIMAL_EMOJIS : TOOL_EMOJIS);
+  const motion = pickMotion(difficulty, rng, settings.motions, settings.motionChance);
+  // Accelerating objects start slow so they end up about as fast as the rest
+  const speed = motion.kind === "gravity" ? baseSpeed * 0.4 : baseSpeed;
+
+  return () => {
+    const obj = createFallingObject(type, { x, y: startY }, speed, size, color, emoji, angularSpeed);
+    obj.motion = createMotion(motion);
+    obj.role = settings.role ?? "hazard";
+    return obj;
+  };
+}
+
+export function drawPowerUp(rng: Random, field: GameField): () => FallingPowerUp {
+  const x = rng.between(40, field.width - 40);
+  const speed = rng.between(110, 170);
+  const powerUpKind = rng.choice(POWER_UP_KINDS);
+  return () => new FallingPowerUp({ x, y: -30 }, speed, powerUpKind);
+}
+
+export function generateLevel(definition: LevelDefinition, field: GameField, rng: Random): Level {
+  const { duration: durationMs, difficulty, theme, kind } = definition;
+  const powerUpsPerMinute = definition.powerUpsPerMinute ?? 0;
+  const mix = definition.objects ?? defaultObjectMix(theme, kind);
+  const seconds = durationMs / 1000;
+  const objectsCount = Math.floor(seconds * difficulty * (definition.density ?? DEFAULT_DENSITY));
+
+  const settings: HazardSettings = {
+    difficulty,
+    mix,
+    kind,
+    motions: definition.motions,
+    motionChance: definition.motionChance,
+  };
+  // Mixed levels draw their catchable objects from another kind, looking like that kind in any theme
+  const catchKind = definition.catch ?? null;
+  const catchSettings: HazardSettings | null = catchKind && {
+    ...settings,
+    mix: kindMix(catchKind),
+    kind: catchKind,
+    role: "collectible",
+  };
+  const levelObjects: LevelObject[] = [];
+
+  for (let i = 0; i < objectsCount; i++) {
+    const startTime = rng.between(0, durationMs - 500);
+    // Plain levels make no extra draw, so their layouts don't change
+    const objectSettings = catchSettings && rng.next() < CATCH_SHARE ? catchSettings : settings;
+    levelObjects.push(new LevelObject(startTime, drawHazard(rng, objectSettings, field)));
+  }
+
+  // Power-ups are drawn after the hazards, so a seed's hazard layout doesn't depend on the rate
+  const expectedPowerUps = (seconds / 60) * powerUpsPerMinute;
+  const powerUpsCount = Math.floor(expectedPowerUps + rng.next());
+  for (let i = 0; i < powerUpsCount; i++) {
+    const startTime = rng.between(1000, durationMs - 2000);
+    levelObjects.push(new LevelObject(startTime, drawPowerUp(rng, field)));
+  }
+
+  // Handcrafted spawns use no randomness, so they never shift the generated layout
+  (definition.spawns ?? []).forEach((spawn) => levelObjects.push(handcraftedObject(spawn, kind, field)));
+
+  // The boss draws its attacks at runtime from its own seed, drawn last for the same reason
+  const boss = definition.boss;
+  if (boss) {
+    const bossSeed = Math.floor(rng.next() * 4294967296);
+    const phases = boss.phases ?? DEFAULT_BOSS_PHASES;
+    // Drained a second before the level ends, so it is gone by then
+    const fightMs = Math.max(1000, durationMs - 1000);
+    levelObjects.push(
+      new LevelObject(0, () => new Boss(boss.name, phases, difficulty, fightMs, field.width, bossSeed))
+    );
+  }
+
+  levelObjects.sort((a, b) => a.startTime - b.startTime);
+
+  return new Level(difficulty, durationMs, levelObjects, theme, kind, powerUpsPerMinute, catchKind);
+}
+
+// ---------- Campaign ----------
+
+// All levels of a pack for one run seed. Each level has its own sub-seed,
+// so level N's layout only depends on the run seed and N.
+export function generateCampaign(pack: LevelPack, seed: number, field: GameField): Level[] {
+  return pack.levels.map((definition, i) => generateLevel(definition, field, new Random(deriveSeed(seed, i))));
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LEVEL_PACK, LevelDefinition, parseLevelPack, toLevelPack, validateLevelPack } from "./levelpack";
+
+const LEVEL: LevelDefinition = { duration: 20000, difficulty: 1, theme: "night", kind: "shapes" };
+
+function packOf(...levels: unknown[]): unknown {
+  return { name: "Test", levels };
+}
+
+// Problems found in a pack holding just this level
+function problemsOf(level: unknown): string[] {
+  return validateLevelPack(packOf(level));
+}
+
+const split = (pieces: unknown) => {
+  const motion = { kind: "split", atHeight: 0.4, pieces, spread: 90 };
+  return { ...LEVEL, density: 0, spawns: [{ time: 0, x: 0.5, speed: 200, type: "diamond", motion }] };
+};
+
+const boss = (count: unknown) => ({
+  ...LEVEL,
+  boss: { name: "Boss", phases: [{ attack: "spread", duration: 5000, interval: 1000, count }] },
+});
+
+describe("level pack validation", () => {
+  it("accepts the built-in campaign", () => {
+    expect(validateLevelPack(DEFAULT_LEVEL_PACK)).toEqual([]);
+  });
+
+  it("accepts generated, handcrafted and boss levels", () => {
+    const pack = packOf(
+      { ...LEVEL, motions: ["sine", "bounce"], powerUpsPerMinute: 3, catch: "animals" },
+      split(3),
+      boss(5)
+    );
+    expect(validateLevelPack(pack)).toEqual([]);
+    expect(parseLevelPack(JSON.stringify(pack))).toEqual(pack);
+  });
+
+  it("rejects documents that aren't packs", () => {
+    expect(validateLevelPack([])).toEqual(["pack: expected an object"]);
+    expect(validateLevelPack({ levels: [LEVEL] })).toEqual(["name: expected a non-empty string"]);
+    expect(validateLevelPack({ name: "Empty", levels: [] })).toEqual(["levels: expected a non-empty list"]);
+    expect(() => parseLevelPack("{")).toThrow("not a JSON file");
+  });
+
+  it("requires whole numbers of split pieces and boss shots", () => {
+    expect(problemsOf(split(2.5))).toEqual(["levels[0].spawns[0].motion.pieces: expected a whole number, got 2.5"]);
+    expect(problemsOf(split(0))).toEqual(["levels[0].spawns[0].motion.pieces: must be between 1 and 5, got 0"]);
+    expect(problemsOf(boss(1.5))).toEqual(["levels[0].boss.phases[0].count: expected a whole number, got 1.5"]);
+    expect(problemsOf(boss(0))).toEqual(["levels[0].boss.phases[0].count: must be between 1 and 20, got 0"]);
+  });
+
+  it("rejects levels that couldn't be played", () => {
+    expect(problemsOf({ ...LEVEL, density: 0 })).toEqual([
+      "levels[0]: density is 0 and there are no spawns, the level would be empty",
+    ]);
+    expect(problemsOf({ ...LEVEL, catch: "shapes" })).toEqual([
+      "levels[0].catch: must differ from kind, or nothing would be left to avoid",
+    ]);
+    const late = { ...LEVEL, spawns: [{ time: 25000, x: 0.5, speed: 200, type: "circle" }] };
+    expect(problemsOf(late)).toEqual(["levels[0].spawns[0].time: must be between 0 and 20000, got 25000"]);
+  });
+
+  it("lists every problem at once, each with its path", () => {
+    const problems = validateLevelPack(packOf({ ...LEVEL, theme: "lava", difficulty: "hard" }, "level"));
+    expect(problems).toEqual([
+      'levels[0].difficulty: expected a number, got "hard"',
+      'levels[0].theme: expected one of night, day, factory, ocean, space, got "lava"',
+      "levels[1]: expected an object",
+    ]);
+    expect(() => toLevelPack(packOf("level"))).toThrow("Invalid level pack:\n  - levels[0]: expected an object");
+  });
+});
@@ -0,0 +1,278 @@
+import { BOSS_ATTACKS } from "./boss";
+import type { BossDefinition } from "./boss";
+import campaignPack from "./campaign.json";
+import { LEVEL_KINDS, LEVEL_THEMES, OBJECT_TYPES } from "./level";
+import type { LevelKind, LevelTheme, ObjectType } from "./level";
+import { MOTION_KINDS } from "./motion";
+import type { MotionKind, MotionSpec } from "./motion";
+import { POWER_UP_KINDS } from "./powerups";
+import type { PowerUpKind } from "./powerups";
+import { hashText } from "./random";
+
+// ---------- Level Packs ----------
+//
+// A level pack is a JSON document listing the levels of a campaign. Each
+// level is either generated from its settings, laid out by hand through
+// `spawns`, or both. Packs are validated as a whole so a designer sees every
+// mistake at once, each with its path inside the document.
+
+// One handcrafted spawn on a level's timeline
+export interface SpawnDefinition {
+  time: number; // ms after level start
+  x: number; // 0..1 across the field
+  speed: number; // px/s
+  type: ObjectType | "powerUp";
+  powerUp?: PowerUpKind; // required when type is "powerUp"
+  size?: number; // px, defaults to 36
+  color?: string; // shapes only
+  emoji?: string; // emoji only
+  motion?: MotionSpec; // defaults to a straight fall
+}
+
+export interface LevelDefinition {
+  duration: number; // ms
+  difficulty: number;
+  theme: LevelTheme;
+  kind: LevelKind;
+  catch?: LevelKind; // mixes in objects of this kind that must be caught instead of dodged
+  objects?: ObjectType[]; // mix of generated objects; defaults by theme and kind
+  density?: number; // generated objects per second per difficulty point, defaults to 1.5 (0 = handcrafted only)
+  motions?: MotionKind[]; // motion patterns generated objects may use; defaults by difficulty
+  motionChance?: number; // 0..1 share of generated objects that don't fall straight; defaults by difficulty
+  powerUpsPerMinute?: number;
+  spawns?: SpawnDefinition[];
+  boss?: BossDefinition; // a boss fight lasting the whole level
+}
+
+export interface LevelPack {
+  name: string;
+  levels: LevelDefinition[];
+}
+
+// ---------- Validation ----------
+
+type Problems = string[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(problems: Problems, path: string, value: unknown, min: number, max = Infinity): void {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    problems.push(`${path}: expected a number, got ${JSON.stringify(value)}`);
+  } else if (value < min || value > max) {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+    problems.push(`${path}: must be ${range}, got ${value}`);
+  }
+}
+
+// Counts, such as how many pieces something splits into
+function checkInteger(problems: Problems, path: string, value: unknown, min: number, max = Infinity): void {
+  if (typeof value === "number" && !Number.isInteger(value)) {
+    problems.push(`${path}: expected a whole number, got ${value}`);
+    return;
+  }
+  checkNumber(problems, path, value, min, max);
+}
+
+function checkOneOf<T extends string>(problems: Problems, path: string, value: unknown, allowed: readonly T[]): void {
+  if (!allowed.includes(value as T)) {
+    problems.push(`${path}: expected one of ${allowed.join(", ")}, got ${JSON.stringify(value)}`);
+  }
+}
+
+function checkList<T extends string>(problems: Problems, path: string, value: unknown, allowed: readonly T[]): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    problems.push(`${path}: expected a non-empty list`);
+    return;
+  }
+  value.forEach((item, i) => checkOneOf(problems, `${path}[${i}]`, item, allowed));
+}
+
+function checkMotion(problems: Problems, path: string, motion: unknown): void {
+  if (!isObject(motion)) {
+    problems.push(`${path}: expected an object`);
+    return;
+  }
+  checkOneOf(problems, `${path}.kind`, motion.kind, MOTION_KINDS);
+  switch (motion.kind) {
+    case "sine":
+      checkNumber(problems, `${path}.amplitude`, motion.amplitude, 0);
+      checkNumber(problems, `${path}.frequency`, motion.frequency, 0);
+      checkNumber(problems, `${path}.phase`, motion.phase, -Infinity);
+      break;
+    case "bounce":
+      checkNumber(problems, `${path}.speedX`, motion.speedX, -Infinity);
+      break;
+    case "gravity":
+      checkNumber(problems, `${path}.acceleration`, motion.acceleration, 0);
+      break;
+    case "homing":
+      checkNumber(problems, `${path}.turnRate`, motion.turnRate, 0);
+      checkNumber(problems, `${path}.maxSpeedX`, motion.maxSpeedX, 0);
+      break;
+    case "split":
+      checkNumber(problems, `${path}.atHeight`, motion.atHeight, 0, 1);
+      checkInteger(problems, `${path}.pieces`, motion.pieces, 1, 5);
+      checkNumber(problems, `${path}.spread`, motion.spread, 0);
+      break;
+  }
+}
+
+function checkSpawn(problems: Problems, path: string, spawn: unknown, duration: unknown): void {
+  if (!isObject(spawn)) {
+    problems.push(`${path}: expected an object`);
+    return;
+  }
+  const latest = typeof duration === "number" && Number.isFinite(duration) ? duration : Infinity;
+  checkNumber(problems, `${path}.time`, spawn.time, 0, latest);
+  checkNumber(problems, `${path}.x`, spawn.x, 0, 1);
+  checkNumber(problems, `${path}.speed`, spawn.speed, 1);
+  checkOneOf(problems, `${path}.type`, spawn.type, [...OBJECT_TYPES, "powerUp"]);
+  if (spawn.type === "powerUp" || spawn.powerUp !== undefined) {
+    checkOneOf(problems, `${path}.powerUp`, spawn.powerUp, POWER_UP_KINDS);
+  }
+  if (spawn.size !== undefined) {
+    checkNumber(problems, `${path}.size`, spawn.size, 4, 200);
+  }
+  if (spawn.color !== undefined && typeof spawn.color !== "string") {
+    problems.push(`${path}.color: expected a CSS color string`);
+  }
+  if (spawn.emoji !== undefined && (typeof spawn.emoji !== "string" || spawn.emoji.length === 0)) {
+    problems.push(`${path}.emoji: expected a non-empty string`);
+  }
+  if (spawn.motion !== undefined) {
+    checkMotion(problems, `${path}.motion`, spawn.motion);
+  }
+}
+
+function checkBoss(problems: Problems, path: string, boss: unknown): void {
+  if (!isObject(boss)) {
+    problems.push(`${path}: expected an object`);
+    return;
+  }
+  if (typeof boss.name !== "string" || boss.name.trim() === "") {
+    problems.push(`${path}.name: expected a non-empty string`);
+  }
+  if (boss.phases === undefined) {
+    return;
+  }
+  if (!Array.isArray(boss.phases) || boss.phases.length === 0) {
+    problems.push(`${path}.phases: expected a non-empty list`);
+    return;
+  }
+  boss.phases.forEach((phase, i) => {
+    const phasePath = `${path}.phases[${i}]`;
+    if (!isObject(phase)) {
+      problems.push(`${phasePath}: expected an object`);
+      return;
+    }
+    checkOneOf(problems, `${phasePath}.attack`, phase.attack, BOSS_ATTACKS);
+    checkNumber(problems, `${phasePath}.duration`, phase.duration, 500);
+    checkNumber(problems, `${phasePath}.interval`, phase.interval, 50);
+    if (phase.count !== undefined) {
+      checkInteger(problems, `${phasePath}.count`, phase.count, 1, 20);
+    }
+  });
+}
+
+function checkLevel(problems: Problems, path: string, level: unknown): void {
+  if (!isObject(level)) {
+    problems.push(`${path}: expected an object`);
+    return;
+  }
+  checkNumber(problems, `${path}.duration`, level.duration, 1000);
+  checkNumber(problems, `${path}.difficulty`, level.difficulty, 0.1, 20);
+  checkOneOf(problems, `${path}.theme`, level.theme, LEVEL_THEMES);
+  checkOneOf(problems, `${path}.kind`, level.kind, LEVEL_KINDS);
+  if (level.catch !== undefined) {
+    checkOneOf(problems, `${path}.catch`, level.catch, LEVEL_KINDS);
+    if (level.catch === level.kind) {
+      problems.push(`${path}.catch: must differ from kind, or nothing would be left to avoid`);
+    }
+  }
+  if (level.objects !== undefined) {
+    checkList(problems, `${path}.objects`, level.objects, OBJECT_TYPES);
+  }
+  if (level.density !== undefined) {
+    checkNumber(problems, `${path}.density`, level.density, 0, 20);
+  }
+  if (level.motions !== undefined) {
+    checkList(problems, `${path}.motions`, level.motions, MOTION_KINDS);
+  }
+  if (level.motionChance !== undefined) {
+    checkNumber(problems, `${path}.motionChance`, level.motionChance, 0, 1);
+  }
+  if (level.powerUpsPerMinute !== undefined) {
+    checkNumber(problems, `${path}.powerUpsPerMinute`, level.powerUpsPerMinute, 0, 60);
+  }
+  if (level.spawns !== undefined) {
+    if (!Array.isArray(level.spawns)) {
+      problems.push(`${path}.spawns: expected a list`);
+    } else {
+      level.spawns.forEach((spawn, i) => checkSpawn(problems, `${path}.spawns[${i}]`, spawn, level.duration));
+    }
+  }
+  if (level.boss !== undefined) {
+    checkBoss(problems, `${path}.boss`, level.boss);
+  }
+  if (level.density === 0 && level.boss === undefined && (!Array.isArray(level.spawns) || level.spawns.length === 0)) {
+    problems.push(`${path}: density is 0 and there are no spawns, the level would be empty`);
+  }
+}
+
+// Every problem found in the document, empty when it's a valid pack
+export function validateLevelPack(data: unknown): string[] {
+  const problems: Problems = [];
+  if (!isObject(data)) {
+    return ["pack: expected an object"];
+  }
+  if (typeof data.name !== "string" || data.name.trim() === "") {
+    problems.push("name: expected a non-empty string");
+  }
+  if (!Array.isArray(data.levels) || data.levels.length === 0) {
+    problems.push("levels: expected a non-empty list");
+  } else {
+    data.levels.forEach((level, i) => checkLevel(problems, `levels[${i}]`, level));
+  }
+  return problems;
+}
+
+function assertLevelPack(data: unknown): asserts data is LevelPack {
+  const problems = validateLevelPack(data);
+  if (problems.length > 0) {
+    throw new Error(`Invalid level pack:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+}
+
+// Throws with every problem listed when the data isn't a usable pack
+export function toLevelPack(data: unknown): LevelPack {
+  assertLevelPack(data);
+  return data;
+}
+
+export function parseLevelPack(json: string): LevelPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid level pack: not a JSON file");
+  }
+  return toLevelPack(data);
+}
+
+export async function fetchLevelPack(url: string): Promise<LevelPack> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load level pack ${url}: HTTP ${response.status}`);
+  }
+  return parseLevelPack(await response.text());
+}
+
+// Fingerprint of a pack's levels, so a replay can tell whether it is played on the pack it was recorded on
+export function levelPackHash(pack: LevelPack): number {
+  return hashText(JSON.stringify(pack.levels));
+}
+
+// The built-in 100-level campaign
+export const DEFAULT_LEVEL_PACK: LevelPack = toLevelPack(campaignPack);
@@ -0,0 +1,216 @@
+// @vitest-environment happy-dom
+/// <reference types="vite/client" />
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import page from "../game.html?raw";
+
+// ---------- Page smoke test ----------
+//
+// Mounts the game on game.html's own markup and clicks through its screens.
+// happy-dom has no canvas or audio, so both are stubbed with objects that
+// accept any call, and no Option constructor.
+
+const anything: object = new Proxy(function () {}, {
+  get: (_, prop) => (prop === Symbol.toPrimitive ? () => 0 : anything),
+  apply: () => anything,
+  construct: () => anything,
+  set: () => true,
+});
+
+function byId<T extends HTMLElement = HTMLElement>(id: string): T {
+  const element = document.getElementById(id);
+  if (!element) {
+    throw new Error(`#${id} is missing from game.html`);
+  }
+  return element as T;
+}
+
+function click(id: string): void {
+  byId(id).click();
+}
+
+function isShown(id: string): boolean {
+  return !byId(id).classList.contains("hidden");
+}
+
+const status = () => byId("status").textContent;
+
+// Presses and releases a key; returns the keydown so callers can see whether the game claimed it
+function press(key: string): KeyboardEvent {
+  const down = new KeyboardEvent("keydown", { key, cancelable: true });
+  window.dispatchEvent(down);
+  window.dispatchEvent(new KeyboardEvent("keyup", { key }));
+  return down;
+}
+
+beforeAll(async () => {
+  // The game loop runs on animation frames and performance.now(), so those are faked too
+  vi.useFakeTimers({
+    toFake: ["setTimeout", "clearTimeout", "requestAnimationFrame", "cancelAnimationFrame", "performance", "Date"],
+  });
+  const body = /<body>([\s\S]*)<\/body>/.exec(page)?.[1] ?? "";
+  document.body.innerHTML = body.replace(/<script[\s\S]*?<\/script>/g, "");
+  HTMLCanvasElement.prototype.getContext = (() => anything) as typeof HTMLCanvasElement.prototype.getContext;
+  vi.stubGlobal("AudioContext", anything);
+  vi.stubGlobal("Option", function (text: string, value: string) {
+    const option = document.createElement("option");
+    option.text = text;
+    option.value = value;
+    return option;
+  });
+  await import("./main");
+});
+
+describe("game.html", () => {
+  it("mounts the game without errors", () => {
+    expect(byId("error-display").textContent).toBe("");
+    expect(isShown("welcome-overlay")).toBe(true);
+    expect(byId("lives").textContent).toBe("Lives: ❤️❤️❤️");
+    expect(byId("daily-calendar").children).toHaveLength(28);
+  });
+
+  it("keeps every mode reachable from the welcome screen", () => {
+    // Nothing starts by itself without ?mode= or ?autostart
+    vi.advanceTimersByTime(2500);
+    expect(isShown("welcome-overlay")).toBe(true);
+
+    const modes: [string, string][] = [
+      ["btn-start-welcome", "RUNNING"],
+      ["btn-endless-welcome", "ENDLESS"],
+      ["btn-daily-welcome", "DAILY"],
+      ["btn-time-attack-welcome", "TIME ATTACK"],
+      ["btn-zen-welcome", "ZEN"],
+      ["btn-catch-welcome", "CATCH"],
+      ["btn-coop-welcome", "CO-OP"],
+      ["btn-versus-welcome", "VERSUS"],
+    ];
+    for (const [button, label] of modes) {
+      click(button);
+      expect(isShown("welcome-overlay")).toBe(false);
+      expect(status()?.toUpperCase()).toContain(label);
+      click("btn-stop");
+      expect(status()).toBe("Status: STOPPED");
+      expect(isShown("welcome-overlay")).toBe(true);
+    }
+  });
+
+  it("goes back to the modes after a game over", () => {
+    click("btn-time-attack-welcome");
+    // Out of lives or out of time, whichever comes first
+    vi.advanceTimersByTime(200_000);
+    expect(isShown("game-over-overlay")).toBe(true);
+    expect(isShown("welcome-overlay")).toBe(false);
+
+    click("btn-modes-game-over");
+    expect(isShown("game-over-overlay")).toBe(false);
+    expect(isShown("welcome-overlay")).toBe(true);
+  });
+
+  it("opens the high scores from the welcome screen", () => {
+    click("btn-high-scores-welcome");
+    expect(isShown("high-scores-overlay")).toBe(true);
+    expect(byId("high-scores-summary").textContent).toContain("No runs yet");
+    click("btn-close-high-scores");
+    expect(isShown("high-scores-overlay")).toBe(false);
+  });
+
+  it("opens the level select with only level 1 open", () => {
+    click("btn-level-select-welcome");
+    const buttons = byId("level-select-grid").querySelectorAll("button");
+    expect(buttons).toHaveLength(100);
+    expect(buttons[0].disabled).toBe(false);
+    expect(buttons[1].disabled).toBe(true);
+    click("btn-close-level-select");
+    expect(isShown("level-select-overlay")).toBe(false);
+  });
+
+  it("keeps a paused run's score when a new run replaces it", () => {
+    click("btn-start");
+    vi.advanceTimersByTime(3000);
+    click("btn-pause");
+    const score = Number(/\d+/.exec(byId("score").textContent ?? "")?.[0]);
+    expect(score).toBeGreaterThan(0);
+
+    click("btn-start");
+    click("btn-stop");
+    click("btn-high-scores-welcome");
+    const entries = byId("high-scores-list").querySelectorAll("li");
+    expect(entries).toHaveLength(1);
+    expect(entries[0].textContent).toContain(`${score} pts`);
+    click("btn-close-high-scores");
+  });
+
+  it("switches the background music off and on", () => {
+    click("btn-music");
+    expect(byId("btn-music").textContent).toBe("🔇 MUSIC: OFF");
+    click("btn-music");
+    expect(byId("btn-music").textContent).toBe("🔊 MUSIC: ON");
+  });
+
+  it("rebinds a key on the controls screen", () => {
+    click("btn-settings-welcome");
+    expect(isShown("settings-overlay")).toBe(true);
+    expect(byId<HTMLSelectElement>("settings-touch-scheme").options).toHaveLength(2);
+
+    const rows = Array.from(byId("settings-bindings").children);
+    rows.find((row) => row.textContent?.startsWith("Pause"))?.querySelector("button")?.click();
+    press("q");
+    expect(byId("settings-bindings").textContent).toContain("Q");
+    press("Escape");
+    expect(isShown("settings-overlay")).toBe(false);
+
+    click("btn-start-welcome");
+    press("q");
+    expect(status()).toBe("Status: PAUSED");
+    click("btn-stop");
+  });
+
+  it("keeps the browser's default only for keys the game doesn't use", () => {
+    expect(press("ArrowDown").defaultPrevented).toBe(true);
+    expect(press(" ").defaultPrevented).toBe(false);
+  });
+
+  it("shows a toast when muting", () => {
+    press("m");
+    expect(isShown("toast")).toBe(true);
+    expect(byId("toast").textContent).toContain("Sound off");
+    press("m");
+    expect(byId("toast").textContent).toContain("Sound on");
+  });
+
+  it("pauses when the window loses focus and counts down before resuming", () => {
+    click("btn-start-welcome");
+    vi.advanceTimersByTime(1000);
+    window.dispatchEvent(new Event("blur"));
+    expect(status()).toBe("Status: PAUSED");
+
+    click("btn-resume");
+    expect(status()).toBe("Status: RESUMING");
+    expect(isShown("countdown")).toBe(true);
+    expect(byId("countdown").textContent).toBe("3");
+    vi.advanceTimersByTime(3000);
+    expect(isShown("countdown")).toBe(false);
+    expect(status()).toContain("Level 1/");
+    click("btn-stop");
+  });
+
+  it("holds the break between levels while the window has no focus", () => {
+    // Zen has no deaths, so level 1 is always passed once its time is up
+    click("btn-zen-welcome");
+    for (let ms = 0; ms < 40_000 && !isShown("level-passed-overlay"); ms += 100) {
+      vi.advanceTimersByTime(100);
+    }
+    expect(isShown("level-passed-overlay")).toBe(true);
+
+    window.dispatchEvent(new Event("blur"));
+    expect(status()).toBe("Status: PAUSED");
+    vi.advanceTimersByTime(20_000);
+    expect(isShown("level-passed-overlay")).toBe(true);
+    expect(status()).toBe("Status: PAUSED");
+
+    click("btn-resume");
+    vi.advanceTimersByTime(10_000);
+    expect(isShown("level-passed-overlay")).toBe(false);
+    expect(status()).toContain("Level 2/");
+    click("btn-stop");
+  });
+});
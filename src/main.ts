@@ -1,1076 +1,686 @@
 import "./style.css";
+import { Point } from "./geometry";
+import { AudioManager } from "./audio";
+import type { Command } from "./controls";
+import { dailyKey, dailySeed } from "./daily";
+import { WORLD_HEIGHT, WORLD_WIDTH } from "./field";
+import { Fireworks } from "./fireworks";
+import { Hud } from "./hud";
+import { GamepadAction, InputManager } from "./input";
+import { SettingsScreen } from "./settings";
+import { JOYSTICK_SCREEN_RADIUS } from "./touch";
+import { DEFAULT_LEVEL_PACK, LevelPack, fetchLevelPack, levelPackHash, parseLevelPack } from "./levelpack";
+import { Random, createSeed, deriveSeed, parseSeed } from "./random";
+import { CanvasRenderer } from "./renderer";
+import { Replay, ReplayPlayer, ReplayRecorder, parseReplay, serializeReplay } from "./replay";
+import { LevelScore } from "./scoring";
+import { GAME_MODES, GameMode, levelRule } from "./modes";
+import { GameStorage } from "./storage";
+import { FIXED_STEP_MS, GameOverReason, MovementInput, Simulation, SimulationEvent } from "./simulation";
 
-// ---------- Basic Types ----------
-
-interface Point {
-  x: number;
-  y: number;
-}
-
-interface Bounds {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-interface GameObject {
-  location: Point;
-  speed: Point; // pixels per second
-  isAlive: boolean;
-
-  move(deltaSeconds: number, field: GameField): void;
-  getBounds(): Bounds;
-  hasCollision(other: GameObject): boolean;
-  render(ctx: CanvasRenderingContext2D): void;
-}
-
-// ---------- Utility ----------
-
-function boundsIntersect(a: Bounds, b: Bounds): boolean {
-  return (
-    a.x < b.x + b.width &&
-    a.x + a.width > b.x &&
-    a.y < b.y + b.height &&
-    a.y + a.height > b.y
-  );
-}
+// ---------- Game ----------
+//
+// Browser adapter around the Simulation: drives it from requestAnimationFrame,
+// feeds it keyboard/pointer input and mirrors its events to canvas, HUD and audio.
 
-function randomBetween(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
-}
+// Sub-seed for fireworks and other effects, kept apart from level layouts
+const EFFECTS_SEED_INDEX = -1;
 
-function randomChoice<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
+// Longest frame we try to catch up on (e.g. after a tab switch); the rest is dropped.
+const MAX_FRAME_MS = 250;
+const FIREWORKS_INTERVAL_MS = 200;
+const RESUME_COUNTDOWN = 3; // seconds counted down before a paused run goes on
 
-// ---------- Audio Manager ----------
+const GAME_OVER_STATUS: Record<GameOverReason, string> = {
+  noLives: "GAME OVER",
+  timeUp: "TIME'S UP",
+  tooManyMissed: "TOO MANY MISSED",
+};
 
-class AudioManager {
-  private audioContext: AudioContext | null = null;
+class Game {
+  private canvas: HTMLCanvasElement;
+  private sim: Simulation;
+  private renderer: CanvasRenderer;
+  private hud: Hud = new Hud();
+  private storage: GameStorage = new GameStorage();
 
-  constructor() {
-    // Don't initialize here - wait for user interaction
-  }
+  private lastFrameTime = 0;
+  private accumulatorMs = 0;
+  private animationFrameId = 0;
 
-  private ensureAudioContext() {
-    if (!this.audioContext) {
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-    if (this.audioContext.state === "suspended") {
-      this.audioContext.resume();
+  private input = new InputManager(this.storage.bindings, this.storage.touchScheme);
+  private settings = new SettingsScreen(
+    (bindings) => {
+      this.storage.saveBindings(bindings);
+      this.input.setBindings(bindings);
+    },
+    (scheme) => {
+      this.storage.saveTouchScheme(scheme);
+      this.input.touch.scheme = scheme;
     }
-  }
-
-  initAudio() {
-    this.ensureAudioContext();
-  }
-
-  private playSound(frequency: number, duration: number, volume: number = 0.3, type: "sine" | "square" | "triangle" = "sine") {
-    this.ensureAudioContext();
-    if (!this.audioContext) return;
-
-    const now = this.audioContext.currentTime;
-    const osc = this.audioContext.createOscillator();
-    const gain = this.audioContext.createGain();
+  );
 
-    osc.connect(gain);
-    gain.connect(this.audioContext.destination);
+  // Run seed: fixes every level layout. Pass one in to replay a specific run.
+  private fixedSeed: number | null;
+  private effectsRng: Random;
 
-    osc.type = type;
-    osc.frequency.setValueAtTime(frequency, now);
-    gain.gain.setValueAtTime(volume, now);
-    gain.gain.exponentialRampToValueAtTime(0.01, now + duration);
+  private fireworks: Fireworks;
+  private audioManager: AudioManager = new AudioManager();
+  private levelPassedElapsedMs = 0;
+  private breakPaused = false; // the break between levels is on hold, see pause()
+  private countdownTimer = 0; // pending step of the resume countdown, 0 when not counting
+
+  // Every run is recorded; a loaded replay replaces live input
+  private recorder: ReplayRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private lastReplay: Replay | null = null;
+  // Day of the daily challenge being played, so a run past midnight counts for the day it started
+  private dailyDay: string | null = null;
+
+  constructor(canvas: HTMLCanvasElement, seed: number | null = null) {
+    this.canvas = canvas;
 
-    osc.start(now);
-    osc.stop(now + duration);
-  }
+    this.fixedSeed = seed;
+    const initialSeed = seed ?? createSeed();
+    this.sim = new Simulation(WORLD_WIDTH, WORLD_HEIGHT, initialSeed);
+    this.renderer = new CanvasRenderer(canvas, initialSeed);
+    this.renderer.viewport.onResize = () => this.handleResize();
+    this.effectsRng = new Random(deriveSeed(initialSeed, EFFECTS_SEED_INDEX));
+    this.fireworks = new Fireworks(this.effectsRng);
 
-  playCollisionSound() {
-    // Low descending pitch for collision
-    this.playSound(200, 0.1, 0.4, "square");
-    setTimeout(() => this.playSound(150, 0.1, 0.3, "square"), 50);
+    this.initControls();
+    this.hud.update(0, 0, 0);
+    this.refreshLives();
+    this.hud.setScore(this.sim.players.map((slot) => slot.score));
+    this.refreshContinueOptions();
+    this.hud.showDailyCalendar(this.storage.daily, dailyKey());
+    this.handleResize();
   }
 
-  playLevelPassSound() {
-    // Ascending melody for level pass
-    this.playSound(523, 0.1, 0.3, "sine"); // C5
-    setTimeout(() => this.playSound(659, 0.1, 0.3, "sine"), 120); // E5
-    setTimeout(() => this.playSound(784, 0.1, 0.3, "sine"), 240); // G5
-    setTimeout(() => this.playSound(1047, 0.2, 0.3, "sine"), 360); // C6
+  get status() {
+    return this.sim.status;
   }
 
-  playFireworksSound() {
-    // Quick pop sound for fireworks
-    this.playSound(800, 0.05, 0.25, "square");
+  get seed(): number {
+    return this.sim.seed;
   }
-}
-
-// ---------- Fireworks ----------
-
-interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  maxLife: number;
-  color: string;
-}
 
-class Fireworks {
-  private particles: Particle[] = [];
-
-  createExplosion(x: number, y: number, count: number = 50): void {
-    const colors = ["#ff0000", "#00ff00", "#0000ff", "#ffff00", "#ff00ff", "#00ffff", "#ffffff"];
-    
-    for (let i = 0; i < count; i++) {
-      const angle = (Math.PI * 2 * i) / count;
-      const speed = randomBetween(150, 350);
-      const vx = Math.cos(angle) * speed;
-      const vy = Math.sin(angle) * speed;
-      
-      this.particles.push({
-        x,
-        y,
-        vx,
-        vy,
-        life: 1,
-        maxLife: randomBetween(0.8, 1.5),
-        color: randomChoice(colors),
-      });
+  start(mode: GameMode = "campaign"): void {
+    if (this.sim.status === "RUNNING") {
+      return;
     }
-  }
-
-  update(deltaSeconds: number): void {
-    this.particles.forEach((p) => {
-      p.x += p.vx * deltaSeconds;
-      p.y += p.vy * deltaSeconds;
-      p.vy += 300 * deltaSeconds; // gravity
-      p.life -= deltaSeconds;
-    });
 
-    this.particles = this.particles.filter((p) => p.life > 0);
+    this.endRunInProgress();
+    // Starting fresh from the beginning, with a new seed unless one was given;
+    // the daily challenge always plays the day's seed
+    this.replayPlayer = null;
+    this.dailyDay = mode === "daily" ? dailyKey() : null;
+    const seed = this.dailyDay !== null ? dailySeed(this.dailyDay) : this.fixedSeed ?? createSeed();
+    this.beginRun(seed, 0, mode);
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    this.particles.forEach((p) => {
-      const alpha = Math.max(0, p.life / p.maxLife);
-      ctx.save();
-      ctx.globalAlpha = alpha;
-      ctx.fillStyle = p.color;
-      ctx.beginPath();
-      ctx.arc(p.x, p.y, 3, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.restore();
-    });
+  // Debug overlay with the exact collision shapes
+  toggleHitboxes(): void {
+    this.renderer.showHitboxes = !this.renderer.showHitboxes;
+    this.renderer.render(this.sim, this.fireworks);
   }
 
-  hasParticles(): boolean {
-    return this.particles.length > 0;
+  // Picks up at the highest level reached, with the layouts of the run that got there
+  continueFromCheckpoint(): void {
+    const checkpoint = this.storage.checkpoint;
+    this.startAtLevel(checkpoint ? checkpoint.level - 1 : 0);
   }
-}
-
-// ---------- Game Objects ----------
-
-abstract class BaseFallingObject implements GameObject {
-  location: Point;
-  speed: Point;
-  isAlive = true;
-  color: string;
-  borderColor: string;
 
-  constructor(location: Point, speedY: number, color: string, borderColor: string) {
-    this.location = location;
-    this.speed = { x: 0, y: speedY }; // only down
-    this.color = color;
-    this.borderColor = borderColor;
-  }
-
-  move(deltaSeconds: number, field: GameField): void {
-    this.location.y += this.speed.y * deltaSeconds;
-
-    // If outside field => mark as dead
-    if (this.location.y - 100 > field.height) {
-      this.isAlive = false;
+  startAtLevel(levelIndex: number): void {
+    if (this.sim.status === "RUNNING") {
+      return;
     }
-  }
-
-  abstract getBounds(): Bounds;
-  abstract render(ctx: CanvasRenderingContext2D): void;
-
-  hasCollision(other: GameObject): boolean {
-    return boundsIntersect(this.getBounds(), other.getBounds());
-  }
-}
-
-class FallingCircle extends BaseFallingObject {
-  radius: number;
-
-  constructor(location: Point, speedY: number, radius: number, color: string, borderColor: string) {
-    super(location, speedY, color, borderColor);
-    this.radius = radius;
-  }
-
-  getBounds(): Bounds {
-    return {
-      x: this.location.x - this.radius,
-      y: this.location.y - this.radius,
-      width: this.radius * 2,
-      height: this.radius * 2,
-    };
-  }
-
-  render(ctx: CanvasRenderingContext2D): void {
-    ctx.save();
-    ctx.beginPath();
-    ctx.arc(this.location.x, this.location.y, this.radius, 0, Math.PI * 2);
-    ctx.fillStyle = this.color;
-    ctx.fill();
-    ctx.lineWidth = 2;
-    ctx.strokeStyle = this.borderColor;
-    ctx.stroke();
-    ctx.restore();
-  }
-}
-
-class RotatingFallingSquare extends BaseFallingObject {
-  size: number;
-  angle = 0;
-  angularSpeed: number; // radians/sec
-
-  constructor(
-    location: Point,
-    speedY: number,
-    size: number,
-    color: string,
-    borderColor: string,
-    angularSpeed: number
-  ) {
-    super(location, speedY, color, borderColor);
-    this.size = size;
-    this.angularSpeed = angularSpeed;
-  }
-
-  move(deltaSeconds: number, field: GameField): void {
-    super.move(deltaSeconds, field);
-    this.angle += this.angularSpeed * deltaSeconds;
-  }
-
-  getBounds(): Bounds {
-    // Approximate with axis-aligned box
-    return {
-      x: this.location.x - this.size / 2,
-      y: this.location.y - this.size / 2,
-      width: this.size,
-      height: this.size,
-    };
-  }
-
-  render(ctx: CanvasRenderingContext2D): void {
-    ctx.save();
-    ctx.translate(this.location.x, this.location.y);
-    ctx.rotate(this.angle);
-    ctx.fillStyle = this.color;
-    ctx.strokeStyle = this.borderColor;
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    const half = this.size / 2;
-    ctx.rect(-half, -half, this.size, this.size);
-    ctx.fill();
-    ctx.stroke();
-    ctx.restore();
-  }
-}
 
-class RotatingFallingTriangle extends BaseFallingObject {
-  size: number;
-  angle = 0;
-  angularSpeed: number;
-
-  constructor(
-    location: Point,
-    speedY: number,
-    size: number,
-    color: string,
-    borderColor: string,
-    angularSpeed: number
-  ) {
-    super(location, speedY, color, borderColor);
-    this.size = size;
-    this.angularSpeed = angularSpeed;
-  }
+    if (!this.usesDefaultPack) {
+      // Custom packs have no saved progress: every level is open
+      this.endRunInProgress();
+      this.replayPlayer = null;
+      this.hud.hideLevelSelect();
+      this.beginRun(this.fixedSeed ?? createSeed(), levelIndex);
+      return;
+    }
 
-  move(deltaSeconds: number, field: GameField): void {
-    super.move(deltaSeconds, field);
-    this.angle += this.angularSpeed * deltaSeconds;
-  }
+    const checkpoint = this.storage.checkpoint;
+    if (levelIndex === 0 || !checkpoint) {
+      this.start();
+      return;
+    }
+    if (levelIndex >= checkpoint.level) {
+      // Not reached yet: still locked
+      return;
+    }
 
-  getBounds(): Bounds {
-    return {
-      x: this.location.x - this.size / 2,
-      y: this.location.y - this.size / 2,
-      width: this.size,
-      height: this.size,
-    };
+    this.endRunInProgress();
+    this.replayPlayer = null;
+    this.hud.hideLevelSelect();
+    this.beginRun(this.fixedSeed ?? checkpoint.seed, levelIndex);
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    const half = this.size / 2;
-
-    ctx.save();
-    ctx.translate(this.location.x, this.location.y);
-    ctx.rotate(this.angle);
-
-    ctx.beginPath();
-    ctx.moveTo(0, -half); // top
-    ctx.lineTo(half, half);
-    ctx.lineTo(-half, half);
-    ctx.closePath();
-
-    ctx.fillStyle = this.color;
-    ctx.fill();
-    ctx.lineWidth = 2;
-    ctx.strokeStyle = this.borderColor;
-    ctx.stroke();
-
-    ctx.restore();
+  // Replaces the campaign with a custom level pack; not while a run is going
+  loadLevelPack(pack: LevelPack): boolean {
+    if (!this.sim.loadPack(pack)) {
+      showError("Stop the current run before loading a level pack");
+      return false;
+    }
+    console.log(`📚 Level pack "${pack.name}" loaded (${pack.levels.length} levels)`);
+    this.hud.setStatus(`${pack.name} (${pack.levels.length} levels)`);
+    this.refreshContinueOptions();
+    return true;
   }
-}
-
-// Emoji object – animals / tools
-class FallingEmojiObject extends BaseFallingObject {
-  text: string;
-  fontSize: number;
 
-  constructor(location: Point, speedY: number, fontSize: number, text: string) {
-    super(location, speedY, "#ffffff", "#000000");
-    this.text = text;
-    this.fontSize = fontSize;
+  // High scores, checkpoint and best times belong to the built-in campaign
+  private get usesDefaultPack(): boolean {
+    return this.sim.levelPack === DEFAULT_LEVEL_PACK;
   }
 
-  getBounds(): Bounds {
-    const size = this.fontSize;
-    return {
-      x: this.location.x - size / 2,
-      y: this.location.y - size / 2,
-      width: size,
-      height: size,
-    };
+  // Plays a recorded run back instead of live input; only on the level pack it was recorded on
+  startReplay(replay: Replay): void {
+    if (replay.packHash !== levelPackHash(this.sim.levelPack)) {
+      showError(`Replay error: recorded on level pack "${replay.pack}", load that pack first`);
+      return;
+    }
+    cancelAnimationFrame(this.animationFrameId);
+    this.endRunInProgress();
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.beginRun(replay.seed, replay.startLevel, replay.mode);
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    ctx.save();
-    ctx.font = `${this.fontSize}px system-ui`;
-    ctx.textAlign = "center";
-    ctx.textBaseline = "middle";
-    ctx.fillText(this.text, this.location.x, this.location.y);
-    ctx.restore();
+  exportReplay(): void {
+    const replay = this.recorder ? this.recorder.finish() : this.lastReplay;
+    if (!replay) {
+      return;
+    }
+    const blob = new Blob([serializeReplay(replay)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `falling-objects-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
   }
-}
 
-// Star-shaped falling object for space theme
-class FallingStarObject extends BaseFallingObject {
-  size: number;
-  rotation: number = 0;
+  private beginRun(seed: number, levelIndex: number = 0, mode: GameMode = "campaign"): void {
+    // Initialize audio on first user interaction
+    this.audioManager.initAudio();
+    this.cancelCountdown();
 
-  constructor(location: Point, speedY: number, size: number = 15) {
-    super(location, speedY, "#ffff00", "#ffcc00");
-    this.size = size;
-  }
+    this.effectsRng = new Random(deriveSeed(seed, EFFECTS_SEED_INDEX));
+    this.fireworks = new Fireworks(this.effectsRng);
+    console.log(`🎲 Run seed: ${seed}`);
+    this.sim.start(seed, levelIndex, mode);
+    this.recorder = this.replayPlayer ? null : new ReplayRecorder(seed, levelIndex, mode, this.sim.levelPack);
+    this.audioManager.setMusicPlaying(true, true);
 
-  getBounds(): Bounds {
-    return {
-      x: this.location.x - this.size,
-      y: this.location.y - this.size,
-      width: this.size * 2,
-      height: this.size * 2,
-    };
+    this.lastFrameTime = performance.now();
+    this.accumulatorMs = 0;
+
+    this.hud.hideOverlays();
+    this.hud.hideWelcome();
+    this.hud.hideLevelSelect();
+    this.refreshLives();
+    this.hud.setPowerUps([]);
+    this.setRunningStatus();
+    this.showLevelIntro();
+    this.loop(this.lastFrameTime);
   }
 
-  move(deltaSeconds: number, field: GameField): void {
-    this.rotation += 0.1;
-    super.move(deltaSeconds, field);
+  // Pausing during the resume countdown stops the countdown
+  pause(): void {
+    if (this.resuming) {
+      this.cancelCountdown();
+      this.hud.setStatus("PAUSED");
+      return;
+    }
+    if (this.sim.status === "LEVEL_PASSED") {
+      // The break between levels holds too, or its loop would start the next level unseen
+      cancelAnimationFrame(this.animationFrameId);
+      this.breakPaused = true;
+    } else if (!this.sim.pause()) {
+      return;
+    }
+    this.audioManager.setMusicPlaying(false);
+    this.hud.setStatus("PAUSED");
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    ctx.save();
-    ctx.translate(this.location.x, this.location.y);
-    ctx.rotate(this.rotation);
-    ctx.fillStyle = this.color;
-    ctx.strokeStyle = this.borderColor;
-    ctx.lineWidth = 2;
-
-    // Draw star
-    const points = 5;
-    const outerRadius = this.size;
-    const innerRadius = this.size / 2;
-    ctx.beginPath();
-    for (let i = 0; i < points * 2; i++) {
-      const radius = i % 2 === 0 ? outerRadius : innerRadius;
-      const angle = (i * Math.PI) / points - Math.PI / 2;
-      const x = Math.cos(angle) * radius;
-      const y = Math.sin(angle) * radius;
-      if (i === 0) ctx.moveTo(x, y);
-      else ctx.lineTo(x, y);
+  // Play goes on after a countdown, so nobody is hit the moment they come back
+  resume(): void {
+    if (this.isBreakPaused) {
+      // Nothing to dodge yet, so the break goes on right away
+      this.breakPaused = false;
+      this.audioManager.setMusicPlaying(true);
+      this.setRunningStatus();
+      this.lastFrameTime = performance.now();
+      this.animationFrameId = requestAnimationFrame(this.levelPassedLoop);
+      return;
+    }
+    if (this.sim.status !== "PAUSED" || this.resuming) {
+      return;
     }
-    ctx.closePath();
-    ctx.fill();
-    ctx.stroke();
-    ctx.restore();
+    this.hud.setStatus("RESUMING");
+    this.countDown(RESUME_COUNTDOWN);
   }
-}
-
-// Diamond-shaped falling object for ocean theme
-class FallingDiamondObject extends BaseFallingObject {
-  size: number;
 
-  constructor(location: Point, speedY: number, size: number = 15) {
-    super(location, speedY, "#00ccff", "#0099cc");
-    this.size = size;
+  stop(): void {
+    this.cancelCountdown();
+    this.finishRun();
+    this.sim.stop();
+    this.audioManager.setMusicPlaying(false, true);
+    this.hud.setStatus("STOPPED");
+    this.showModeSelect();
+    cancelAnimationFrame(this.animationFrameId);
+    this.hud.update(0, 0, 0);
+    this.renderer.render(this.sim, this.fireworks);
   }
 
-  getBounds(): Bounds {
-    return {
-      x: this.location.x - this.size,
-      y: this.location.y - this.size,
-      width: this.size * 2,
-      height: this.size * 2,
-    };
+  private get isBreakPaused(): boolean {
+    return this.breakPaused && this.sim.status === "LEVEL_PASSED";
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    ctx.save();
-    ctx.translate(this.location.x, this.location.y);
-    ctx.fillStyle = this.color;
-    ctx.strokeStyle = this.borderColor;
-    ctx.lineWidth = 2;
-
-    // Draw diamond
-    ctx.beginPath();
-    ctx.moveTo(0, -this.size);
-    ctx.lineTo(this.size, 0);
-    ctx.lineTo(0, this.size);
-    ctx.lineTo(-this.size, 0);
-    ctx.closePath();
-    ctx.fill();
-    ctx.stroke();
-    ctx.restore();
+  private get resuming(): boolean {
+    return this.countdownTimer !== 0;
   }
-}
 
-class Player implements GameObject {
-  location: Point;
-  speed: Point = { x: 0, y: 0 };
-  width: number;
-  height: number;
-  color: string;
-  borderColor: string;
-  isAlive = true;
-  private moveSpeed = 420; // pixels per second
-
-  constructor(location: Point, width: number, height: number, color: string, borderColor: string) {
-    this.location = location;
-    this.width = width;
-    this.height = height;
-    this.color = color;
-    this.borderColor = borderColor;
+  private countDown(seconds: number): void {
+    if (seconds === 0) {
+      this.countdownTimer = 0;
+      this.hud.hideCountdown();
+      this.continueRun();
+      return;
+    }
+    this.hud.showCountdown(seconds);
+    this.countdownTimer = window.setTimeout(() => this.countDown(seconds - 1), 1000);
   }
 
-  moveLeft(deltaSeconds: number): void {
-    this.location.x -= this.moveSpeed * deltaSeconds;
+  private cancelCountdown(): void {
+    clearTimeout(this.countdownTimer);
+    this.countdownTimer = 0;
+    this.hud.hideCountdown();
   }
 
-  moveRight(deltaSeconds: number): void {
-    this.location.x += this.moveSpeed * deltaSeconds;
+  private continueRun(): void {
+    if (!this.sim.resume()) {
+      return;
+    }
+    this.audioManager.setMusicPlaying(true);
+    this.setRunningStatus();
+    this.lastFrameTime = performance.now();
+    this.accumulatorMs = 0;
+    this.loop(this.lastFrameTime);
   }
 
-  moveUp(deltaSeconds: number): void {
-    this.location.y -= this.moveSpeed * deltaSeconds;
+  // Leaving the page pauses; whatever was held when it lost focus is let go
+  private handleFocusLost(): void {
+    this.input.releaseAll();
+    this.pause();
   }
 
-  moveDown(deltaSeconds: number): void {
-    this.location.y += this.moveSpeed * deltaSeconds;
+  // Also when the canvas was resized or moved to a screen with another pixel ratio, which cleared it
+  private handleResize(): void {
+    this.input.touch.joystickRadius = JOYSTICK_SCREEN_RADIUS / this.renderer.viewport.cssScale;
+    this.renderer.render(this.sim, this.fireworks, 1, this.input.touch.joysticks);
   }
 
-  move(deltaSeconds: number, field: GameField): void {
-    // Clamp inside field horizontally
-    if (this.location.x < this.width / 2) {
-      this.location.x = this.width / 2;
-    }
-    if (this.location.x > field.width - this.width / 2) {
-      this.location.x = field.width - this.width / 2;
+  // A new run of the current mode, ending the one in progress
+  restart(): void {
+    if (this.runInProgress) {
+      this.stop();
     }
-    // Clamp inside field vertically
-    if (this.location.y < this.height / 2) {
-      this.location.y = this.height / 2;
-    }
-    if (this.location.y > field.height - this.height / 2) {
-      this.location.y = field.height - this.height / 2;
+    this.start(this.sim.mode);
+  }
+
+  // Pauses and resumes a run, or moves on after a passed level
+  togglePause(): void {
+    const status = this.sim.status;
+    if (status === "RUNNING") {
+      this.pause();
+    } else if (status === "PAUSED" && this.resuming) {
+      this.pause();
+    } else if (status === "PAUSED" || this.isBreakPaused) {
+      this.resume();
+    } else if (status === "LEVEL_PASSED") {
+      this.advanceToNextLevel();
     }
   }
 
-  getBounds(): Bounds {
-    return {
-      x: this.location.x - this.width / 2,
-      y: this.location.y - this.height / 2,
-      width: this.width,
-      height: this.height,
-    };
-  }
-
-  hasCollision(other: GameObject): boolean {
-    return boundsIntersect(this.getBounds(), other.getBounds());
+  private get runInProgress(): boolean {
+    const status = this.sim.status;
+    return status === "RUNNING" || status === "PAUSED" || status === "LEVEL_PASSED";
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    const bounds = this.getBounds();
-    ctx.save();
-    ctx.fillStyle = this.color;
-    ctx.strokeStyle = this.borderColor;
-    ctx.lineWidth = 2;
-    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
-    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
-    ctx.restore();
+  private handleCommand(command: Command): void {
+    if (command === "pause") {
+      this.togglePause();
+    } else if (command === "restart") {
+      this.restart();
+    } else if (command === "mute") {
+      this.hud.showToast(this.audioManager.toggleMute() ? "🔇 Sound off" : "🔊 Sound on");
+    }
   }
-}
-
-// ---------- Level, LevelObject, Field ----------
-
-class LevelObject {
-  constructor(
-    public startTime: number, // ms after level start
-    private factory: () => GameObject
-  ) {}
 
-  createGameObject(): GameObject {
-    return this.factory();
+  private toggleMusic(button: HTMLButtonElement): void {
+    button.textContent = this.audioManager.toggleMusic() ? "🔊 MUSIC: ON" : "🔇 MUSIC: OFF";
   }
-}
-
-type LevelTheme = "night" | "day" | "factory" | "ocean" | "space";
-type LevelKind = "shapes" | "animals" | "tools";
-
-class Level {
-  constructor(
-    public difficulty: number,
-    public duration: number, // ms
-    public levelObjects: LevelObject[],
-    public theme: LevelTheme,
-    public kind: LevelKind
-  ) {}
-}
-
-class GameField {
-  width: number;
-  height: number;
-  gameObjects: GameObject[] = [];
 
-  constructor(width: number, height: number) {
-    this.width = width;
-    this.height = height;
+  // Start pauses and resumes like the pause key, or begins a run when none is going; Select restarts
+  private handleGamepadAction(action: GamepadAction): void {
+    if (action === "start" && this.runInProgress) {
+      this.togglePause();
+    } else {
+      this.restart();
+    }
   }
 
-  addObject(obj: GameObject): void {
-    this.gameObjects.push(obj);
+  // Rebinding keys mid-run pauses it first
+  private showSettings(): void {
+    this.pause();
+    this.settings.show(this.storage.bindings, this.storage.touchScheme);
   }
 
-  removeDead(): void {
-    this.gameObjects = this.gameObjects.filter((o) => o.isAlive);
-  }
-}
+  private loop = (timestamp: number): void => {
+    if (this.sim.status !== "RUNNING") {
+      cancelAnimationFrame(this.animationFrameId);
+      return;
+    }
 
-// ---------- Level Generator ----------
-
-function generateLevel(
-  durationMs: number,
-  difficulty: number,
-  field: GameField,
-  theme: LevelTheme,
-  kind: LevelKind
-): Level {
-  const seconds = durationMs / 1000;
-  const objectsCount = Math.floor(seconds * difficulty * 1.5); // Increase object quantity
-
-  const levelObjects: LevelObject[] = [];
-
-  const animalEmojis = ["🐶", "🐱", "🦊", "🐻", "🐰", "🦁", "🐼"];
-  const toolEmojis = ["🔧", "🛠", "⚙", "🔩", "🪚", "🔨", "🪛"];
-
-  for (let i = 0; i < objectsCount; i++) {
-    const startTime = randomBetween(0, durationMs - 500);
-    const x = randomBetween(40, field.width - 40);
-    const startY = randomBetween(-200, -40);
-    // Speed increases with difficulty - faster falling objects
-    const minSpeed = 80 + difficulty * 30;
-    const maxSpeed = 190 + difficulty * 60;
-    const speed = randomBetween(minSpeed, maxSpeed);
-    const size = randomBetween(28, 48);
-    const radius = size / 2;
-
-    const factory = () => {
-      // Theme-specific objects
-      if (theme === "space") {
-        return new FallingStarObject({ x, y: startY }, speed, radius);
-      } else if (theme === "ocean") {
-        return new FallingDiamondObject({ x, y: startY }, speed, radius);
-      }
+    this.accumulatorMs += this.consumeFrameTime(timestamp);
 
-      // Default behavior for other themes (night, day, factory)
-      if (kind === "shapes") {
-        const type = randomChoice<"circle" | "square" | "triangle">([
-          "circle",
-          "square",
-          "triangle",
-        ]);
-        const color = randomChoice<string>(["#ff9f80", "#ffdf6e", "#85e3ff", "#baffc9"]);
-        const borderColor = "#ffffff";
-        const angularSpeed = randomBetween(-2.5, 2.5);
-
-        if (type === "circle") {
-          return new FallingCircle({ x, y: startY }, speed, radius, color, borderColor);
-        } else if (type === "square") {
-          return new RotatingFallingSquare(
-            { x, y: startY },
-            speed,
-            size,
-            color,
-            borderColor,
-            angularSpeed
-          );
-        } else {
-          return new RotatingFallingTriangle(
-            { x, y: startY },
-            speed,
-            size,
-            color,
-            borderColor,
-            angularSpeed
-          );
-        }
-      } else if (kind === "animals") {
-        const emoji = randomChoice(animalEmojis);
-        return new FallingEmojiObject({ x, y: startY }, speed, size, emoji);
-      } else {
-        const emoji = randomChoice(toolEmojis);
-        return new FallingEmojiObject({ x, y: startY }, speed, size, emoji);
+    while (this.accumulatorMs >= FIXED_STEP_MS && this.sim.status === "RUNNING") {
+      if (this.replayPlayer?.isFinished(this.sim.tick)) {
+        // The recording was stopped mid-level
+        this.stop();
+        return;
       }
-    };
-
-    levelObjects.push(new LevelObject(startTime, factory));
-  }
-
-  levelObjects.sort((a, b) => a.startTime - b.startTime);
-
-  return new Level(difficulty, durationMs, levelObjects, theme, kind);
-}
-
-// ---------- Game ----------
-
-type GameStatus = "IDLE" | "RUNNING" | "PAUSED" | "STOPPED" | "FINISHED";
-
-class Game {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private field: GameField;
-  private player: Player;
-
-  private levels: Level[] = [];
-  private currentLevelIndex = 0;
-  private levelStartTime = 0;
-  private lastFrameTime = 0;
-  private nextLevelObjectIndex = 0;
-
-  public status: GameStatus = "IDLE";
-  private animationFrameId = 0;
-
-  private leftPressed = false;
-  private rightPressed = false;
-  private upPressed = false;
-  private downPressed = false;
-
-  private stars: Point[] = [];
-  private fireworks: Fireworks = new Fireworks();
-  private audioManager: AudioManager = new AudioManager();
-  private levelPassedTimer = 0;
-  private levelPassedTimeoutId: number | null = null;
-  private isLevelPassed = false;
-  private levelPassedStartTime = 0;
-
-  // UI
-  private statusLabel = document.getElementById("status") as HTMLDivElement;
-  private objectsLabel = document.getElementById("objects") as HTMLDivElement;
-  private timeLabel = document.getElementById("time") as HTMLDivElement;
-  private progressFill = document.getElementById("progress-fill") as HTMLDivElement;
-  private gameOverOverlay = document.getElementById("game-over-overlay") as HTMLDivElement;
-  private playAgainBtn = document.getElementById("btn-play-again") as HTMLButtonElement;
-  private levelPassedOverlay = document.getElementById("level-passed-overlay") as HTMLDivElement;
-  private levelPassedText = document.getElementById("level-passed-text") as HTMLDivElement;
-  private nextLevelBtn = document.getElementById("btn-next-level") as HTMLButtonElement;
-  private welcomeOverlay = document.getElementById("welcome-overlay") as HTMLDivElement;
-
-  constructor(canvas: HTMLCanvasElement) {
-    const context = canvas.getContext("2d");
-    if (!context) {
-      throw new Error("Canvas 2D context not available");
+      const events = this.sim.step(FIXED_STEP_MS / 1000, this.nextInputs());
+      this.fireworks.update(FIXED_STEP_MS / 1000);
+      this.accumulatorMs -= FIXED_STEP_MS;
+      events.forEach((event) => this.handleEvent(event));
     }
 
-    this.canvas = canvas;
-    this.ctx = context;
-
-    this.field = new GameField(canvas.width, canvas.height);
-
-    const playerWidth = 110;
-    const playerHeight = 18;
-    this.player = new Player(
-      { x: canvas.width / 2, y: canvas.height - playerHeight - 12 },
-      playerWidth,
-      playerHeight,
-      "#22e246",
-      "#ffffff"
-    );
+    const totalMs = this.sim.rules.hasLevels ? this.sim.currentLevel.duration : null;
+    this.hud.update(this.sim.field.gameObjects.length, this.sim.levelElapsedMs, totalMs, this.sim.timeLeftMs);
+    this.hud.setScore(this.sim.players.map((slot) => slot.score));
+    this.hud.setPowerUps(this.sim.players.map((slot) => slot.powerUps.active));
+    this.hud.setMissesLeft(this.sim.missesLeft);
+    this.renderer.render(this.sim, this.fireworks, this.accumulatorMs / FIXED_STEP_MS, this.input.touch.joysticks);
 
-    for (let i = 0; i < 80; i++) {
-      this.stars.push({
-        x: Math.random() * canvas.width,
-        y: Math.random() * canvas.height,
-      });
+    if (this.sim.status === "RUNNING") {
+      this.animationFrameId = requestAnimationFrame(this.loop);
     }
+  };
 
-    this.initControls();
-    this.resetLevels();
-    this.updateHud(0, 0);
-    this.renderFrame();
-  }
-
-  private resetLevels(): void {
-    this.levels = [];
-    const duration = 25000;
-    const themes: LevelTheme[] = ["night", "day", "factory", "ocean", "space"];
-    const kinds: LevelKind[] = ["shapes", "animals", "tools"];
-    const baseDifficulties = [0.7, 0.85, 0.9, 0.95, 1.0];
-
-    // Generate 100 levels with progressive difficulty
-    for (let i = 0; i < 100; i++) {
-      const cycleIndex = i % 5; // Repeats every 5 levels
-      const cycleNumber = Math.floor(i / 5); // Which cycle we're in (0, 1, 2, ...)
-      
-      const baseDifficulty = baseDifficulties[cycleIndex];
-      // Progressive difficulty increase: 0.15 per cycle (every 5 levels)
-      const difficulty = baseDifficulty + cycleNumber * 0.15;
-      const theme = themes[cycleIndex];
-      const kind = kinds[cycleIndex % 3]; // Cycle through 3 kinds
-      
-      this.levels.push(generateLevel(duration, difficulty, this.field, theme, kind));
+  // Real time since the last frame, clamped so a long stall can't flood the simulation
+  private consumeFrameTime(timestamp: number): number {
+    const frameMs = Math.min(Math.max(0, timestamp - this.lastFrameTime), MAX_FRAME_MS);
+    this.lastFrameTime = timestamp;
+    return frameMs;
+  }
+
+  private nextInputs(): MovementInput[] {
+    const inputs = this.replayPlayer
+      ? this.replayPlayer.inputsAt(this.sim.tick)
+      : this.input.read(this.sim.rules.playerCount);
+    this.recorder?.record(this.sim.tick, inputs);
+    return inputs;
+  }
+
+  private handleEvent(event: SimulationEvent): void {
+    if (event.type === "playerHit") {
+      this.handlePlayerHit(event.cleared);
+    } else if (event.type === "gameOver") {
+      this.handleGameOver(event.reason);
+    } else if (event.type === "nearMiss") {
+      this.audioManager.playNearMissSound();
+    } else if (event.type === "powerUpCollected") {
+      this.audioManager.playPowerUpSound();
+    } else if (event.type === "objectCaught") {
+      this.audioManager.playCatchSound();
+      this.fireworks.createExplosion(event.at.x, event.at.y, 10);
+    } else if (event.type === "objectMissed") {
+      this.audioManager.playMissSound();
+    } else if (event.type === "shieldUsed") {
+      this.audioManager.playCollisionSound();
+      event.cleared.forEach((p) => this.fireworks.createExplosion(p.x, p.y, 12));
+    } else if (event.type === "screenCleared") {
+      this.audioManager.playFireworksSound();
+      event.cleared.forEach((p) => this.fireworks.createExplosion(p.x, p.y, 20));
+    } else if (event.type === "levelFinished") {
+      if (!this.replayPlayer && this.usesDefaultPack && this.sim.mode === "campaign") {
+        this.storage.recordLevelTime(event.levelIndex + 1, event.timeMs);
+        const reached = event.isLastLevel ? event.levelIndex + 1 : event.levelIndex + 2;
+        this.storage.recordLevelReached(reached, this.sim.seed);
+      }
+      this.handleLevelFinished(event.levelIndex, event.isLastLevel, event.scores);
     }
-
-    this.currentLevelIndex = 0;
   }
 
-  start(): void {
-    if (this.status === "RUNNING") {
-      return;
+  // A run left paused or between levels still counts (score, daily attempt, replay) before a new one replaces it
+  private endRunInProgress(): void {
+    if (this.runInProgress) {
+      this.cancelCountdown();
+      this.finishRun();
     }
-
-    // Initialize audio on first user interaction
-    this.audioManager.initAudio();
-
-    // Starting fresh from the beginning
-    this.resetLevels();
-    this.currentLevelIndex = 0;
-    this.isLevelPassed = false;
-
-    this.status = "RUNNING";
-
-    const now = performance.now();
-    this.field.gameObjects = [];
-    this.player.isAlive = true;
-    this.levelStartTime = now;
-    this.lastFrameTime = now;
-    this.nextLevelObjectIndex = 0;
-
-    this.gameOverOverlay.classList.add("hidden");
-    this.levelPassedOverlay.classList.add("hidden");
-    this.welcomeOverlay.classList.add("hidden");
-    
-    this.statusLabel.textContent = `Status: RUNNING (Level ${this.currentLevelIndex + 1}/${this.levels.length})`;
-    this.loop(now);
   }
 
-  pause(): void {
-    if (this.status !== "RUNNING") {
-      return;
+  private finishRun(): void {
+    // Replays and custom packs don't count towards records; endless and daily runs keep their own
+    if (!this.replayPlayer && this.recorder && this.sim.mode === "endless") {
+      this.storage.recordEndlessRun({
+        timeMs: this.sim.levelElapsedMs,
+        score: this.sim.totalScore,
+        seed: this.sim.seed,
+      });
+    } else if (!this.replayPlayer && this.recorder && this.sim.mode === "daily" && this.dailyDay !== null) {
+      const cleared = this.sim.status === "LEVEL_PASSED" || this.sim.status === "FINISHED";
+      this.storage.recordDailyAttempt(this.dailyDay, {
+        score: this.sim.totalScore,
+        levelsCleared: this.sim.currentLevelIndex + (cleared ? 1 : 0),
+      });
+      this.hud.showDailyCalendar(this.storage.daily, dailyKey());
+    } else if (!this.replayPlayer && this.recorder && this.usesDefaultPack && this.sim.mode === "campaign") {
+      this.storage.recordRun({
+        score: this.sim.totalScore,
+        level: this.sim.currentLevelIndex + 1,
+        seed: this.sim.seed,
+      });
     }
-    this.status = "PAUSED";
-    this.statusLabel.textContent = "Status: PAUSED";
-  }
 
-  resume(): void {
-    if (this.status !== "PAUSED") {
-      return;
+    this.audioManager.setMusicPlaying(false);
+    if (this.recorder) {
+      this.lastReplay = this.recorder.finish();
+      this.recorder = null;
     }
-    this.status = "RUNNING";
-    this.statusLabel.textContent = `Status: RUNNING (Level ${
-      this.currentLevelIndex + 1
-    }/${this.levels.length})`;
-    this.lastFrameTime = performance.now();
-    this.loop(this.lastFrameTime);
+    this.replayPlayer = null;
+    this.refreshContinueOptions();
   }
 
-  stop(): void {
-    this.status = "STOPPED";
-    this.isLevelPassed = false;
-    this.statusLabel.textContent = "Status: STOPPED";
-    this.gameOverOverlay.classList.add("hidden");
-    this.levelPassedOverlay.classList.add("hidden");
-    cancelAnimationFrame(this.animationFrameId);
-    this.field.gameObjects = [];
-    this.updateHud(0, 0);
-    this.renderFrame();
+  // Back to the welcome screen, where every mode can be started
+  private showModeSelect(): void {
+    this.hud.hideOverlays();
+    this.hud.showWelcome();
   }
 
-  private loop = (timestamp: number): void => {
-    if (this.status !== "RUNNING") {
-      cancelAnimationFrame(this.animationFrameId);
-      return;
-    }
+  private refreshContinueOptions(): void {
+    const checkpoint = this.usesDefaultPack ? this.storage.checkpoint : null;
+    this.hud.setContinueLevel(checkpoint && checkpoint.level > 1 ? checkpoint.level : null);
+  }
 
-    const deltaMs = timestamp - this.lastFrameTime;
-    const deltaSeconds = deltaMs / 1000;
-    this.lastFrameTime = timestamp;
+  private showLevelSelect(): void {
+    const unlocked = this.usesDefaultPack ? Math.max(1, this.storage.checkpoint?.level ?? 1) : this.sim.levels.length;
+    this.hud.showLevelSelect(this.sim.levels.length, unlocked, (levelIndex) => this.startAtLevel(levelIndex));
+  }
 
-    const level = this.levels[this.currentLevelIndex];
-    const elapsedMs = timestamp - this.levelStartTime;
-
-    while (
-      this.nextLevelObjectIndex < level.levelObjects.length &&
-      level.levelObjects[this.nextLevelObjectIndex].startTime <= elapsedMs
-    ) {
-      const levelObj = level.levelObjects[this.nextLevelObjectIndex];
-      const obj = levelObj.createGameObject();
-      this.field.addObject(obj);
-      this.nextLevelObjectIndex++;
-    }
+  private refreshLives(): void {
+    this.hud.setLives(this.sim.players.map((slot) => slot.lives));
+  }
 
-    if (this.leftPressed) {
-      this.player.moveLeft(deltaSeconds);
-    }
-    if (this.rightPressed) {
-      this.player.moveRight(deltaSeconds);
-    }
-    if (this.upPressed) {
-      this.player.moveUp(deltaSeconds);
-    }
-    if (this.downPressed) {
-      this.player.moveDown(deltaSeconds);
+  private handlePlayerHit(cleared: Point[]): void {
+    this.refreshLives();
+    this.audioManager.playCollisionSound();
+    if (this.sim.rules.hitPenalty !== null) {
+      // Nothing else shows a hit when no life was lost
+      this.renderer.flashHit();
     }
-    this.player.move(deltaSeconds, this.field);
-
-    this.field.gameObjects.forEach((obj) => obj.move(deltaSeconds, this.field));
-    this.field.removeDead();
+    cleared.forEach((p) => this.fireworks.createExplosion(p.x, p.y, 12));
+  }
 
-    for (const obj of this.field.gameObjects) {
-      if (obj.hasCollision(this.player)) {
-        this.handlePlayerHit();
-        break;
-      }
+  private handleGameOver(reason: GameOverReason): void {
+    this.finishRun();
+    if (this.sim.rules.versus) {
+      this.showVersusResult();
+      return;
     }
-
-    if (elapsedMs >= level.duration && this.field.gameObjects.length === 0) {
-      this.handleLevelFinished();
+    this.hud.setStatus(GAME_OVER_STATUS[reason]);
+    if (!this.sim.rules.hasLevels) {
+      this.hud.showGameOver(this.sim.totalScore, this.sim.levelElapsedMs);
+    } else if (this.sim.rules.timeLimitMs !== null) {
+      this.hud.showGameOver(this.sim.totalScore, null, this.sim.currentLevelIndex);
+    } else {
+      this.hud.showGameOver(this.sim.totalScore);
     }
+  }
 
-    // Update fireworks
-    this.fireworks.update(deltaSeconds);
-
-    this.updateHud(elapsedMs, level.duration);
-    this.renderFrame();
-
-    this.animationFrameId = requestAnimationFrame(this.loop);
-  };
-
-  private handlePlayerHit(): void {
-    this.status = "STOPPED";
-    this.statusLabel.textContent = "Status: GAME OVER";
-    this.gameOverOverlay.classList.remove("hidden");
-    this.audioManager.playCollisionSound();
+  private showVersusResult(): void {
+    const winner = this.sim.winner;
+    this.hud.setStatus(winner === null ? "DRAW" : `PLAYER ${winner + 1} WINS`);
+    this.hud.showVersusResult(winner, this.sim.players.map((slot) => slot.score.total));
   }
 
-  private handleLevelFinished(): void {
-    this.status = "STOPPED";
-    this.isLevelPassed = true;
-    this.levelPassedStartTime = performance.now();
+  private handleLevelFinished(levelIndex: number, isLastLevel: boolean, scores: LevelScore[]): void {
+    this.levelPassedElapsedMs = 0;
+    this.breakPaused = false;
+    this.accumulatorMs = 0;
     this.audioManager.playLevelPassSound();
-    
+
     // Create fireworks explosions
     for (let i = 0; i < 5; i++) {
-      const x = randomBetween(100, this.canvas.width - 100);
-      const y = randomBetween(100, this.canvas.height - 100);
+      const x = this.effectsRng.between(100, WORLD_WIDTH - 100);
+      const y = this.effectsRng.between(100, WORLD_HEIGHT - 100);
       this.fireworks.createExplosion(x, y, 40);
       this.audioManager.playFireworksSound();
     }
-    
-    if (this.currentLevelIndex < this.levels.length - 1) {
+
+    if (!isLastLevel) {
       // Show "You Pass Level X" message
-      this.levelPassedText.textContent = `You Pass Level ${this.currentLevelIndex + 1}`;
-      this.levelPassedOverlay.classList.remove("hidden");
-      
+      this.hud.showLevelPassed(`You Pass Level ${levelIndex + 1}`, scores);
+
       // Auto-advance to next level after 5 seconds with continuous fireworks
       this.animationFrameId = requestAnimationFrame(this.levelPassedLoop);
     } else {
       // Last level completed
-      this.status = "FINISHED";
-      this.statusLabel.textContent = "Status: ALL LEVELS COMPLETE";
-      this.levelPassedText.textContent = `You Pass Level ${this.currentLevelIndex + 1} - ALL COMPLETE!`;
-      this.levelPassedOverlay.classList.remove("hidden");
+      this.finishRun();
+      this.hud.setStatus("ALL LEVELS COMPLETE");
+      this.hud.showLevelPassed(`You Pass Level ${levelIndex + 1} - ALL COMPLETE!`, scores, true);
+      if (this.sim.rules.versus) {
+        this.showVersusResult();
+      }
     }
   }
 
   private levelPassedLoop = (timestamp: number): void => {
-    const elapsedMs = timestamp - this.levelPassedStartTime;
-    const FIREWORKS_INTERVAL = 200; // ms
-    
-    // Add fireworks every 200ms
-    if (Math.floor(elapsedMs / FIREWORKS_INTERVAL) % 1 === 0 && elapsedMs % FIREWORKS_INTERVAL < 16) {
-      const x = randomBetween(100, this.canvas.width - 100);
-      const y = randomBetween(100, this.canvas.height - 100);
-      this.fireworks.createExplosion(x, y, 30);
-      this.audioManager.playFireworksSound();
+    if (this.sim.status !== "LEVEL_PASSED") {
+      return;
+    }
+
+    this.accumulatorMs += this.consumeFrameTime(timestamp);
+
+    while (this.accumulatorMs >= FIXED_STEP_MS) {
+      const before = this.levelPassedElapsedMs;
+      this.levelPassedElapsedMs += FIXED_STEP_MS;
+      this.accumulatorMs -= FIXED_STEP_MS;
+
+      // Add fireworks every 200ms
+      if (Math.floor(this.levelPassedElapsedMs / FIREWORKS_INTERVAL_MS) > Math.floor(before / FIREWORKS_INTERVAL_MS)) {
+        const x = this.effectsRng.between(100, WORLD_WIDTH - 100);
+        const y = this.effectsRng.between(100, WORLD_HEIGHT - 100);
+        this.fireworks.createExplosion(x, y, 30);
+        this.audioManager.playFireworksSound();
+      }
+
+      this.fireworks.update(FIXED_STEP_MS / 1000);
     }
-    
-    // Update fireworks
-    const deltaSeconds = 0.016; // Approx 60fps
-    this.fireworks.update(deltaSeconds);
-    this.renderFrame();
-    
-    // Continue for 5 seconds (5000ms)
-    if (elapsedMs < 5000) {
+
+    this.renderer.render(this.sim, this.fireworks);
+
+    // Celebrate for as long as the mode allows, then advance to next level
+    if (this.levelPassedElapsedMs < this.sim.rules.levelPassedMs) {
       this.animationFrameId = requestAnimationFrame(this.levelPassedLoop);
     } else {
-      // After 5 seconds, advance to next level
       this.advanceToNextLevel();
     }
   };
 
   private advanceToNextLevel(): void {
-    if (this.currentLevelIndex < this.levels.length - 1) {
-      this.isLevelPassed = false;
-      this.currentLevelIndex++;
-      this.levelPassedOverlay.classList.add("hidden");
-      
-      const now = performance.now();
-      this.field.gameObjects = [];
-      this.levelStartTime = now;
-      this.lastFrameTime = now;
-      this.nextLevelObjectIndex = 0;
-      
-      this.status = "RUNNING";
-      this.statusLabel.textContent = `Status: RUNNING (Level ${this.currentLevelIndex + 1}/${this.levels.length})`;
-      this.animationFrameId = requestAnimationFrame(this.loop);
+    if (!this.sim.advanceToNextLevel()) {
+      return;
     }
+    cancelAnimationFrame(this.animationFrameId);
+    this.breakPaused = false;
+    this.audioManager.setMusicPlaying(true);
+    this.hud.hideLevelPassed();
+
+    this.lastFrameTime = performance.now();
+    this.accumulatorMs = 0;
+
+    this.setRunningStatus();
+    this.showLevelIntro();
+    this.animationFrameId = requestAnimationFrame(this.loop);
   }
 
-  private renderFrame(): void {
-    const ctx = this.ctx;
-    const w = this.canvas.width;
-    const h = this.canvas.height;
-
-    const level = this.levels[this.currentLevelIndex];
-
-    ctx.save();
-    if (level.theme === "night") {
-      const grad = ctx.createLinearGradient(0, 0, 0, h);
-      grad.addColorStop(0, "#020617");
-      grad.addColorStop(1, "#020b3d");
-      ctx.fillStyle = grad;
-      ctx.fillRect(0, 0, w, h);
-
-      ctx.fillStyle = "#ffffff";
-      this.stars.forEach((s) => {
-        ctx.beginPath();
-        ctx.arc(s.x, s.y, 1.5, 0, Math.PI * 2);
-        ctx.fill();
-      });
-    } else if (level.theme === "day") {
-      const grad = ctx.createLinearGradient(0, 0, 0, h);
-      grad.addColorStop(0, "#9ad9ff");
-      grad.addColorStop(1, "#e9f7ff");
-      ctx.fillStyle = grad;
-      ctx.fillRect(0, 0, w, h);
-
-      ctx.fillStyle = "#6cc070";
-      ctx.fillRect(0, h - 40, w, 40);
-    } else if (level.theme === "factory") {
-      const grad = ctx.createLinearGradient(0, 0, w, h);
-      grad.addColorStop(0, "#2b103e");
-      grad.addColorStop(1, "#7e3ff2");
-      ctx.fillStyle = grad;
-      ctx.fillRect(0, 0, w, h);
-
-      ctx.fillStyle = "rgba(255,255,255,0.1)";
-      for (let i = 0; i < 6; i++) {
-        const x = (i * w) / 6;
-        ctx.fillRect(x, 0, 8, h);
-      }
-    } else if (level.theme === "ocean") {
-      const grad = ctx.createLinearGradient(0, 0, 0, h);
-      grad.addColorStop(0, "#1a5f7a");
-      grad.addColorStop(0.5, "#2a8fa5");
-      grad.addColorStop(1, "#0d4a63");
-      ctx.fillStyle = grad;
-      ctx.fillRect(0, 0, w, h);
-
-      // Water waves effect
-      ctx.strokeStyle = "rgba(255,255,255,0.15)";
-      ctx.lineWidth = 2;
-      for (let i = 0; i < 5; i++) {
-        ctx.beginPath();
-        ctx.arc(w / 2, h / 2 + i * 40, 60 - i * 10, 0, Math.PI * 2);
-        ctx.stroke();
-      }
-    } else if (level.theme === "space") {
-      const grad = ctx.createLinearGradient(0, 0, w, h);
-      grad.addColorStop(0, "#000011");
-      grad.addColorStop(0.5, "#0a0033");
-      grad.addColorStop(1, "#000022");
-      ctx.fillStyle = grad;
-      ctx.fillRect(0, 0, w, h);
-
-      // Stars and nebula
-      ctx.fillStyle = "rgba(255,255,255,0.8)";
-      for (let i = 0; i < 15; i++) {
-        const x = Math.random() * w;
-        const y = Math.random() * h;
-        const r = Math.random() * 1.5;
-        ctx.beginPath();
-        ctx.arc(x, y, r, 0, Math.PI * 2);
-        ctx.fill();
-      }
-      
-      // Purple nebula glow
-      ctx.fillStyle = "rgba(200,100,255,0.1)";
-      ctx.fillRect(0, 0, w / 2, h / 2);
+  private showLevelIntro(): void {
+    if (this.sim.rules.hasLevels) {
+      const title = `Level ${this.sim.currentLevelIndex + 1}`;
+      this.hud.showLevelIntro(title, levelRule(this.sim.rules, this.sim.currentLevel));
     }
-    ctx.restore();
-
-    this.player.render(ctx);
-    this.field.gameObjects.forEach((obj) => obj.render(ctx));
-    
-    // Render fireworks on top
-    this.fireworks.render(ctx);
   }
 
-  private updateHud(elapsedMs: number, totalMs: number): void {
-    const elapsedSeconds = elapsedMs / 1000;
-    const totalSeconds = totalMs / 1000;
+  private setRunningStatus(): void {
+    const label = this.replayPlayer ? "REPLAY" : this.sim.rules.label;
+    if (this.sim.rules.hasLevels) {
+      this.hud.setStatus(`${label} (Level ${this.sim.currentLevelIndex + 1}/${this.sim.levels.length})`);
+    } else {
+      this.hud.setStatus(label);
+    }
+  }
 
-    this.objectsLabel.textContent = `Objects: ${this.field.gameObjects.length}`;
-    this.timeLabel.textContent = `Time: ${elapsedSeconds.toFixed(2)}s / ${totalSeconds.toFixed(
-      2
-    )}s`;
+  private loadReplayFile(): void {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = "application/json,.json";
+    fileInput.addEventListener("change", async () => {
+      const file = fileInput.files?.[0];
+      if (!file) {
+        return;
+      }
+      try {
+        this.startReplay(parseReplay(await file.text()));
+      } catch (error) {
+        showError("Replay error: " + (error instanceof Error ? error.message : String(error)));
+      }
+    });
+    fileInput.click();
+  }
 
-    const progress = totalMs > 0 ? Math.min(1, elapsedMs / totalMs) : 0;
-    this.progressFill.style.width = `${progress * 100}%`;
+  private loadLevelPackFile(): void {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = "application/json,.json";
+    fileInput.addEventListener("change", async () => {
+      const file = fileInput.files?.[0];
+      if (!file) {
+        return;
+      }
+      try {
+        this.loadLevelPack(parseLevelPack(await file.text()));
+      } catch (error) {
+        showError("Level pack error: " + (error instanceof Error ? error.message : String(error)));
+      }
+    });
+    fileInput.click();
   }
 
   private initControls(): void {
@@ -1079,58 +689,122 @@ class Game {
     const btnResume = document.getElementById("btn-resume") as HTMLButtonElement;
     const btnStop = document.getElementById("btn-stop") as HTMLButtonElement;
     const btnStartWelcome = document.getElementById("btn-start-welcome") as HTMLButtonElement;
+    const btnPlayAgain = document.getElementById("btn-play-again") as HTMLButtonElement;
+    const btnEndlessWelcome = document.getElementById("btn-endless-welcome") as HTMLButtonElement;
+    const btnEndlessGameOver = document.getElementById("btn-endless-game-over") as HTMLButtonElement;
+    const btnDailyWelcome = document.getElementById("btn-daily-welcome") as HTMLButtonElement;
+    const btnTimeAttackWelcome = document.getElementById("btn-time-attack-welcome") as HTMLButtonElement;
+    const btnZenWelcome = document.getElementById("btn-zen-welcome") as HTMLButtonElement;
+    const btnCatchWelcome = document.getElementById("btn-catch-welcome") as HTMLButtonElement;
+    const btnCoopWelcome = document.getElementById("btn-coop-welcome") as HTMLButtonElement;
+    const btnVersusWelcome = document.getElementById("btn-versus-welcome") as HTMLButtonElement;
+    const btnNextLevel = document.getElementById("btn-next-level") as HTMLButtonElement;
+    const btnExportReplay = document.getElementById("btn-export-replay") as HTMLButtonElement;
+    const btnLoadReplay = document.getElementById("btn-load-replay") as HTMLButtonElement;
+    const btnLoadPack = document.getElementById("btn-load-pack") as HTMLButtonElement;
+    const btnHighScoresWelcome = document.getElementById("btn-high-scores-welcome") as HTMLButtonElement;
+    const btnHighScoresGameOver = document.getElementById("btn-high-scores-game-over") as HTMLButtonElement;
+    const btnCloseHighScores = document.getElementById("btn-close-high-scores") as HTMLButtonElement;
+    const btnContinueWelcome = document.getElementById("btn-continue-welcome") as HTMLButtonElement;
+    const btnContinueGameOver = document.getElementById("btn-continue-game-over") as HTMLButtonElement;
+    const btnLevelSelectWelcome = document.getElementById("btn-level-select-welcome") as HTMLButtonElement;
+    const btnLevelSelectGameOver = document.getElementById("btn-level-select-game-over") as HTMLButtonElement;
+    const btnCloseLevelSelect = document.getElementById("btn-close-level-select") as HTMLButtonElement;
+    const btnSettings = document.getElementById("btn-settings") as HTMLButtonElement;
+    const btnSettingsWelcome = document.getElementById("btn-settings-welcome") as HTMLButtonElement;
+    const btnMusic = document.getElementById("btn-music") as HTMLButtonElement;
+    const btnModesGameOver = document.getElementById("btn-modes-game-over") as HTMLButtonElement;
+    const btnModesLevelPassed = document.getElementById("btn-modes-level-passed") as HTMLButtonElement;
 
     btnStart.addEventListener("click", () => this.start());
     btnStartWelcome.addEventListener("click", () => this.start());
     btnPause.addEventListener("click", () => this.pause());
     btnResume.addEventListener("click", () => this.resume());
     btnStop.addEventListener("click", () => this.stop());
-    this.playAgainBtn.addEventListener("click", () => this.start());
-    this.nextLevelBtn.addEventListener("click", () => this.advanceToNextLevel());
+    // Same mode as the run that just ended
+    btnPlayAgain.addEventListener("click", () => this.start(this.sim.mode));
+    btnEndlessWelcome.addEventListener("click", () => this.start("endless"));
+    btnEndlessGameOver.addEventListener("click", () => this.start("endless"));
+    btnDailyWelcome.addEventListener("click", () => this.start("daily"));
+    btnTimeAttackWelcome.addEventListener("click", () => this.start("timeAttack"));
+    btnZenWelcome.addEventListener("click", () => this.start("zen"));
+    btnCatchWelcome.addEventListener("click", () => this.start("catch"));
+    btnCoopWelcome.addEventListener("click", () => this.start("coop"));
+    btnVersusWelcome.addEventListener("click", () => this.start("versus"));
+    btnNextLevel.addEventListener("click", () => this.advanceToNextLevel());
+    btnExportReplay.addEventListener("click", () => this.exportReplay());
+    btnLoadReplay.addEventListener("click", () => this.loadReplayFile());
+    btnLoadPack.addEventListener("click", () => this.loadLevelPackFile());
+    btnHighScoresWelcome.addEventListener("click", () => this.hud.showHighScores(this.storage));
+    btnHighScoresGameOver.addEventListener("click", () => this.hud.showHighScores(this.storage));
+    btnCloseHighScores.addEventListener("click", () => this.hud.hideHighScores());
+    btnContinueWelcome.addEventListener("click", () => this.continueFromCheckpoint());
+    btnContinueGameOver.addEventListener("click", () => this.continueFromCheckpoint());
+    btnLevelSelectWelcome.addEventListener("click", () => this.showLevelSelect());
+    btnLevelSelectGameOver.addEventListener("click", () => this.showLevelSelect());
+    btnCloseLevelSelect.addEventListener("click", () => this.hud.hideLevelSelect());
+    btnSettings.addEventListener("click", () => this.showSettings());
+    btnSettingsWelcome.addEventListener("click", () => this.showSettings());
+    btnMusic.addEventListener("click", () => this.toggleMusic(btnMusic));
+    btnModesGameOver.addEventListener("click", () => this.showModeSelect());
+    btnModesLevelPassed.addEventListener("click", () => this.showModeSelect());
+    this.audioManager.attachMusic(document.getElementById("background-music") as HTMLAudioElement | null);
 
     // Keyboard
+    this.input.onCommand = (command) => this.handleCommand(command);
+    // Bound keys don't scroll the page or trigger browser shortcuts
     window.addEventListener("keydown", (e) => {
-      if (e.key === "ArrowLeft" || e.key === "a" || e.key === "A") {
-        this.leftPressed = true;
-      } else if (e.key === "ArrowRight" || e.key === "d" || e.key === "D") {
-        this.rightPressed = true;
-      } else if (e.key === "ArrowUp" || e.key === "w" || e.key === "W") {
-        this.upPressed = true;
-      } else if (e.key === "ArrowDown" || e.key === "s" || e.key === "S") {
-        this.downPressed = true;
+      if (this.input.setKey(e.key, true, e.repeat)) {
+        e.preventDefault();
       }
     });
+    window.addEventListener("keyup", (e) => this.input.setKey(e.key, false));
 
-    window.addEventListener("keyup", (e) => {
-      if (e.key === "ArrowLeft" || e.key === "a" || e.key === "A") {
-        this.leftPressed = false;
-      } else if (e.key === "ArrowRight" || e.key === "d" || e.key === "D") {
-        this.rightPressed = false;
-      } else if (e.key === "ArrowUp" || e.key === "w" || e.key === "W") {
-        this.upPressed = false;
-      } else if (e.key === "ArrowDown" || e.key === "s" || e.key === "S") {
-        this.downPressed = false;
+    // Switching tabs or windows
+    document.addEventListener("visibilitychange", () => {
+      if (document.hidden) {
+        this.handleFocusLost();
       }
     });
+    window.addEventListener("blur", () => this.handleFocusLost());
 
-    // Mouse / touch (pointer) – move player by dragging / tapping
-    const handlePointer = (clientX: number, clientY: number) => {
-      const rect = this.canvas.getBoundingClientRect();
-      const x = clientX - rect.left;
-      const y = clientY - rect.top;
-      this.player.location.x = x * (this.canvas.width / rect.width);
-      this.player.location.y = y * (this.canvas.height / rect.height);
-    };
+    // Gamepads
+    this.input.onGamepadAction = (action) => this.handleGamepadAction(action);
+    this.input.onGamepadConnection = (index, connected) =>
+      this.hud.showToast(`🎮 Gamepad ${index + 1} ${connected ? "connected" : "disconnected"}`);
 
-    this.canvas.addEventListener("pointerdown", (e) => {
-      handlePointer(e.clientX, e.clientY);
-    });
+    // Mouse: drag to move player one, never faster than the keys. Touch: steer with the chosen touch scheme
+    const toField = (e: PointerEvent): Point => this.renderer.viewport.toWorld(e.clientX, e.clientY);
 
-    this.canvas.addEventListener("pointermove", (e) => {
-      if (e.buttons !== 0 || e.pressure > 0) {
-        handlePointer(e.clientX, e.clientY);
+    this.canvas.addEventListener("pointerdown", (e) => {
+      const at = toField(e);
+      // Keeps receiving this pointer's moves after it slides off the canvas
+      this.canvas.setPointerCapture(e.pointerId);
+      if (e.pointerType !== "touch") {
+        this.input.touch.down(e.pointerId, at, 0, "drag");
+        return;
       }
+      // With two players each steers on their half of the screen
+      const player = this.sim.rules.playerCount > 1 && at.x > WORLD_WIDTH / 2 ? 1 : 0;
+      this.input.touch.down(e.pointerId, at, player);
     });
+
+    this.canvas.addEventListener("pointermove", (e) => this.input.touch.move(e.pointerId, toField(e)));
+
+    const liftTouch = (e: PointerEvent) => this.input.touch.up(e.pointerId);
+    this.canvas.addEventListener("pointerup", liftTouch);
+    this.canvas.addEventListener("pointercancel", liftTouch);
+
+    // The canvas itself never scrolls (touch-action: none); this keeps the rest of the page still while playing
+    document.addEventListener(
+      "touchmove",
+      (e) => {
+        if (this.sim.status === "RUNNING") {
+          e.preventDefault();
+        }
+      },
+      { passive: false }
+    );
   }
 }
 
@@ -1157,11 +831,31 @@ try {
     throw new Error("Canvas element not found!");
   }
   
+  const params = new URLSearchParams(window.location.search);
+  // ?seed=12345 (or any text) replays an exact run layout
+  const seed = parseSeed(params.get("seed"));
+  // ?mode=endless auto-starts that mode (?autostart the campaign); otherwise the welcome screen waits for a pick
+  const requestedMode = params.get("mode") as GameMode | null;
+  const startMode: GameMode = requestedMode && GAME_MODES.includes(requestedMode) ? requestedMode : "campaign";
+
   console.log("📦 Creating Game object...");
-  const game = new Game(canvas);
+  const game = new Game(canvas, seed);
 
   console.log("✅ Game initialized successfully!");
 
+  // ?hitboxes=1 outlines collision shapes
+  if (params.has("hitboxes")) {
+    game.toggleHitboxes();
+  }
+
+  // ?pack=levels/my-pack.json plays a custom level pack instead of the campaign
+  const packUrl = params.get("pack");
+  if (packUrl) {
+    fetchLevelPack(packUrl)
+      .then((pack) => game.loadLevelPack(pack))
+      .catch((error) => showError(error instanceof Error ? error.message : String(error)));
+  }
+
   // @ts-ignore
   (window as any).game = game;
 
@@ -1170,30 +864,32 @@ try {
   (window as any).startGame = () => {
     try {
       console.log("Manual start triggered");
-      game.start();
+      game.start(startMode);
     } catch (e) {
       showError("Start error: " + String(e));
     }
   };
 
-  // Auto-start the game after 2 seconds
-  console.log("⏱️ Will auto-start game in 2 seconds...");
-  const startTimer = setTimeout(() => {
-    try {
-      console.log("🎮 Auto-starting game NOW");
-      game.start();
-      console.log("✅ Game started successfully!");
-    } catch (error) {
-      showError("Auto-start error: " + String(error));
-      if (error instanceof Error) {
-        showError("Stack: " + error.stack);
+  if (requestedMode !== null || params.has("autostart")) {
+    // Auto-start the game after 2 seconds
+    console.log("⏱️ Will auto-start game in 2 seconds...");
+    const startTimer = setTimeout(() => {
+      try {
+        console.log("🎮 Auto-starting game NOW");
+        game.start(startMode);
+        console.log("✅ Game started successfully!");
+      } catch (error) {
+        showError("Auto-start error: " + String(error));
+        if (error instanceof Error) {
+          showError("Stack: " + error.stack);
+        }
       }
-    }
-  }, 2000);
+    }, 2000);
 
-  // @ts-ignore
-  (window as any).cancelAutoStart = () => clearTimeout(startTimer);
-  console.log("🎮 GAME READY TO PLAY! (auto-start in 2 seconds)");
+    // @ts-ignore
+    (window as any).cancelAutoStart = () => clearTimeout(startTimer);
+  }
+  console.log("🎮 GAME READY TO PLAY!");
 } catch (error) {
   const errorMsg = error instanceof Error ? error.message : String(error);
   showError("FATAL ERROR: " + errorMsg);
@@ -0,0 +1,161 @@
+import { dailyPack } from "./daily";
+import { EndlessSpawner } from "./endless";
+import type { GameField } from "./field";
+import { Level, LevelTheme, generateCampaign } from "./level";
+import type { LevelPack } from "./levelpack";
+import type { GameObject } from "./objects";
+import { deriveSeed } from "./random";
+
+// ---------- Game Modes ----------
+//
+// A mode decides which levels a run plays, where objects come from and what
+// ends a stretch of play. The Simulation asks its ModeRules for the levels
+// when a run starts and for a Spawner at the start of every level;
+// everything else (movement, hits, scoring) is shared.
+
+export type GameMode = "campaign" | "endless" | "daily" | "timeAttack" | "zen" | "catch" | "coop" | "versus";
+
+export const GAME_MODES: GameMode[] = ["campaign", "endless", "daily", "timeAttack", "zen", "catch", "coop", "versus"];
+
+// Sub-seed index for the endless generator, apart from level layouts (0..n) and effects (-1)
+const ENDLESS_SEED_INDEX = -2;
+
+export const LEVEL_PASSED_MS = 5000;
+export const TIME_ATTACK_BUDGET_MS = 3 * 60 * 1000;
+const TIME_ATTACK_LEVEL_PASSED_MS = 1500;
+export const ZEN_HIT_PENALTY = 100;
+const CATCH_MISS_ALLOWANCE = 0.25;
+
+// Puts objects on the field as play goes on
+export interface Spawner {
+  readonly theme: LevelTheme;
+  spawn(elapsedMs: number, field: GameField): void; // adds everything due by elapsedMs
+  isExhausted(elapsedMs: number): boolean; // nothing more will come
+}
+
+// Plays a precomputed level schedule; assignRole can change what each object is for
+export class LevelSpawner implements Spawner {
+  private nextIndex = 0;
+
+  constructor(private level: Level, private assignRole?: (obj: GameObject) => void) {}
+
+  get theme(): LevelTheme {
+    return this.level.theme;
+  }
+
+  spawn(elapsedMs: number, field: GameField): void {
+    const levelObjects = this.level.levelObjects;
+    while (this.nextIndex < levelObjects.length && levelObjects[this.nextIndex].startTime <= elapsedMs) {
+      const obj = levelObjects[this.nextIndex].createGameObject();
+      this.assignRole?.(obj);
+      field.addObject(obj);
+      this.nextIndex++;
+    }
+  }
+
+  isExhausted(elapsedMs: number): boolean {
+    return elapsedMs >= this.level.duration;
+  }
+}
+
+export interface ModeRules {
+  readonly mode: GameMode;
+  readonly label: string; // status text while running
+  readonly hasLevels: boolean; // level progression
+  readonly timeLimitMs: number | null; // the run ends once this much play time is used up
+  readonly levelPassedMs: number; // celebration before the next level starts
+  readonly hitPenalty: number | null; // points a hit costs instead of a life; null when hits cost lives
+  readonly missAllowance: number | null; // share of a level's objects that may be missed before it's failed
+  readonly playerCount: number; // paddles on the field; the run ends as soon as one of them is out
+  readonly versus: boolean; // players compete for the win instead of playing together
+  createLevels(pack: LevelPack, seed: number, field: GameField): Level[];
+  createSpawner(level: Level, seed: number): Spawner;
+}
+
+// What the player has to do on a level, for the level intro
+export function levelRule(rules: ModeRules, level: Level): string {
+  if (level.catchKind !== null) {
+    return `Catch the ${level.catchKind}, avoid the ${level.kind}!`;
+  }
+  return rules.missAllowance !== null ? "Catch everything!" : "Dodge everything!";
+}
+
+// Everything the level drops is there to be caught; boss projectiles stay hazards
+function catchEverything(obj: GameObject): void {
+  if (obj.role === "hazard") {
+    obj.role = "collectible";
+  }
+}
+
+// The campaign's rules, which most modes change only a little
+const CAMPAIGN_RULES: ModeRules = {
+  mode: "campaign",
+  label: "RUNNING",
+  hasLevels: true,
+  timeLimitMs: null,
+  levelPassedMs: LEVEL_PASSED_MS,
+  hitPenalty: null,
+  missAllowance: null,
+  playerCount: 1,
+  versus: false,
+  createLevels: generateCampaign,
+  createSpawner: (level) => new LevelSpawner(level),
+};
+
+export const MODE_RULES: Record<GameMode, ModeRules> = {
+  campaign: CAMPAIGN_RULES,
+  endless: {
+    ...CAMPAIGN_RULES,
+    mode: "endless",
+    label: "ENDLESS",
+    hasLevels: false,
+    // Stays on the first level; its layout is ignored by the generator
+    createSpawner: (_level, seed) => new EndlessSpawner(deriveSeed(seed, ENDLESS_SEED_INDEX)),
+  },
+  // The seed is the day's seed, so the levels follow from it alone
+  daily: {
+    ...CAMPAIGN_RULES,
+    mode: "daily",
+    label: "DAILY",
+    createLevels: (_pack, seed, field) => generateCampaign(dailyPack(seed), seed, field),
+  },
+  // As many campaign levels as fit in the budget, with short breaks between them
+  timeAttack: {
+    ...CAMPAIGN_RULES,
+    mode: "timeAttack",
+    label: "TIME ATTACK",
+    timeLimitMs: TIME_ATTACK_BUDGET_MS,
+    levelPassedMs: TIME_ATTACK_LEVEL_PASSED_MS,
+  },
+  // Practice: the campaign without deaths
+  zen: {
+    ...CAMPAIGN_RULES,
+    mode: "zen",
+    label: "ZEN",
+    hitPenalty: ZEN_HIT_PENALTY,
+  },
+  // The campaign's levels, caught instead of dodged
+  catch: {
+    ...CAMPAIGN_RULES,
+    mode: "catch",
+    label: "CATCH",
+    missAllowance: CATCH_MISS_ALLOWANCE,
+    // Mixed levels keep their own split between objects to catch and to avoid
+    createSpawner: (level) => new LevelSpawner(level, level.catchKind === null ? catchEverything : undefined),
+  },
+  // Two players on one keyboard, both have to make it
+  coop: {
+    ...CAMPAIGN_RULES,
+    mode: "coop",
+    label: "CO-OP",
+    playerCount: 2,
+  },
+  // Two players on one keyboard, last one standing wins
+  versus: {
+    ...CAMPAIGN_RULES,
+    mode: "versus",
+    label: "VERSUS",
+    playerCount: 2,
+    versus: true,
+  },
+};
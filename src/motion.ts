@@ -0,0 +1,139 @@
+import type { GameField } from "./field";
+import type { BaseFallingObject } from "./objects";
+
+// ---------- Motion Patterns ----------
+//
+// How a falling object travels. Motions keep per-object state (age, whether
+// it already split), so every spawned object gets a fresh one from
+// createMotion(). Anything random is drawn into the spec at generation time.
+
+export type MotionSpec =
+  | { kind: "straight" }
+  | { kind: "sine"; amplitude: number; frequency: number; phase: number } // amplitude px, frequency Hz
+  | { kind: "bounce"; speedX: number } // px/s, sign picks the initial direction
+  | { kind: "gravity"; acceleration: number } // px/s²
+  | { kind: "homing"; turnRate: number; maxSpeedX: number } // turnRate px/s², cap px/s
+  | { kind: "split"; atHeight: number; pieces: number; spread: number }; // atHeight: 0..1 of the field
+
+export type MotionKind = MotionSpec["kind"];
+
+export const MOTION_KINDS: MotionKind[] = ["straight", "sine", "bounce", "gravity", "homing", "split"];
+
+export interface Motion {
+  // Moves the object by one step; may add objects to the field
+  move(obj: BaseFallingObject, deltaSeconds: number, field: GameField): void;
+}
+
+export class StraightMotion implements Motion {
+  move(obj: BaseFallingObject, deltaSeconds: number): void {
+    obj.location.y += obj.speed.y * deltaSeconds;
+  }
+}
+
+// Side-to-side drift around the spawn column
+export class SineMotion implements Motion {
+  private age = 0;
+  private originX: number | null = null;
+
+  constructor(private amplitude: number, private frequency: number, private phase: number) {}
+
+  move(obj: BaseFallingObject, deltaSeconds: number): void {
+    this.originX ??= obj.location.x - this.amplitude * Math.sin(this.phase);
+    this.age += deltaSeconds;
+    obj.location.x = this.originX + this.amplitude * Math.sin(this.age * this.frequency * Math.PI * 2 + this.phase);
+    obj.location.y += obj.speed.y * deltaSeconds;
+  }
+}
+
+// Diagonal fall that bounces off the side walls
+export class BounceMotion implements Motion {
+  constructor(private speedX: number) {}
+
+  move(obj: BaseFallingObject, deltaSeconds: number, field: GameField): void {
+    obj.speed.x = this.speedX;
+    obj.location.x += this.speedX * deltaSeconds;
+    obj.location.y += obj.speed.y * deltaSeconds;
+
+    const half = obj.getBounds().width / 2;
+    if (obj.location.x - half < 0) {
+      obj.location.x = half;
+      this.speedX = Math.abs(this.speedX);
+    } else if (obj.location.x + half > field.width) {
+      obj.location.x = field.width - half;
+      this.speedX = -Math.abs(this.speedX);
+    }
+  }
+}
+
+// Starts slow and keeps speeding up
+export class GravityMotion implements Motion {
+  constructor(private acceleration: number) {}
+
+  move(obj: BaseFallingObject, deltaSeconds: number): void {
+    obj.speed.y += this.acceleration * deltaSeconds;
+    obj.location.y += obj.speed.y * deltaSeconds;
+  }
+}
+
+// Steers slowly toward the nearest player while still above it
+export class HomingMotion implements Motion {
+  constructor(private turnRate: number, private maxSpeedX: number) {}
+
+  move(obj: BaseFallingObject, deltaSeconds: number, field: GameField): void {
+    const target = field.nearestPlayer(obj.location)?.location;
+    if (target && obj.location.y < target.y) {
+      const direction = Math.sign(target.x - obj.location.x);
+      obj.speed.x += direction * this.turnRate * deltaSeconds;
+      obj.speed.x = Math.max(-this.maxSpeedX, Math.min(this.maxSpeedX, obj.speed.x));
+    }
+    obj.location.x += obj.speed.x * deltaSeconds;
+    obj.location.y += obj.speed.y * deltaSeconds;
+  }
+}
+
+// Falls straight, then breaks into smaller pieces that fan out
+export class SplitMotion implements Motion {
+  private done = false;
+
+  constructor(private atHeight: number, private pieces: number, private spread: number) {}
+
+  move(obj: BaseFallingObject, deltaSeconds: number, field: GameField): void {
+    obj.location.y += obj.speed.y * deltaSeconds;
+    if (this.done || obj.location.y < field.height * this.atHeight) {
+      return;
+    }
+    this.done = true;
+
+    const fragments: BaseFallingObject[] = [];
+    for (let i = 0; i < this.pieces; i++) {
+      const fragment = obj.fragment(1 / Math.sqrt(this.pieces));
+      if (!fragment) {
+        return; // this kind of object can't split
+      }
+      // Evenly fanned out from -spread to +spread
+      const t = this.pieces === 1 ? 0 : (i / (this.pieces - 1)) * 2 - 1;
+      fragment.motion = new BounceMotion(t * this.spread);
+      fragment.role = obj.role;
+      fragments.push(fragment);
+    }
+    obj.isAlive = false;
+    fragments.forEach((fragment) => field.addObject(fragment));
+  }
+}
+
+export function createMotion(spec: MotionSpec): Motion {
+  switch (spec.kind) {
+    case "straight":
+      return new StraightMotion();
+    case "sine":
+      return new SineMotion(spec.amplitude, spec.frequency, spec.phase);
+    case "bounce":
+      return new BounceMotion(spec.speedX);
+    case "gravity":
+      return new GravityMotion(spec.acceleration);
+    case "homing":
+      return new HomingMotion(spec.turnRate, spec.maxSpeedX);
+    case "split":
+      return new SplitMotion(spec.atHeight, spec.pieces, spec.spread);
+  }
+}
@@ -0,0 +1,580 @@
+import { Bounds, Point, interpolate } from "./geometry";
+import { Shape, polygonAround, shapesIntersect, starShape } from "./collision";
+import type { GameField } from "./field";
+import { Motion, StraightMotion } from "./motion";
+import { POWER_UP_INFO, PowerUpKind } from "./powerups";
+
+// What touching the object means: hazards and bosses cost a life, power-ups are collected,
+// collectibles are caught for points (and count as missed when they fall out).
+// Bosses are never cleared away like hazards.
+export type ObjectRole = "player" | "hazard" | "powerUp" | "boss" | "collectible";
+
+export interface GameObject {
+  role: ObjectRole;
+  location: Point;
+  previousLocation: Point; // location before the last simulation step
+  speed: Point; // pixels per second
+  isAlive: boolean;
+
+  move(deltaSeconds: number, field: GameField): void;
+  getBounds(): Bounds; // axis-aligned box, for quick proximity checks
+  getShape(): Shape; // exact outline used for hits
+  hasCollision(other: GameObject): boolean;
+  // alpha: 0..1 between the previous and current simulation step
+  render(ctx: CanvasRenderingContext2D, alpha: number): void;
+}
+
+// ---------- Game Objects ----------
+
+export abstract class BaseFallingObject implements GameObject {
+  role: ObjectRole = "hazard";
+  location: Point;
+  previousLocation: Point;
+  speed: Point;
+  isAlive = true;
+  color: string;
+  borderColor: string;
+  motion: Motion = new StraightMotion();
+
+  constructor(location: Point, speedY: number, color: string, borderColor: string) {
+    this.location = location;
+    this.previousLocation = { ...location };
+    this.speed = { x: 0, y: speedY }; // the motion may add sideways speed
+    this.color = color;
+    this.borderColor = borderColor;
+  }
+
+  move(deltaSeconds: number, field: GameField): void {
+    this.motion.move(this, deltaSeconds, field);
+
+    // If outside field => mark as dead
+    if (field.hasLeft(this.location)) {
+      this.isAlive = false;
+    }
+  }
+
+  // A smaller copy for split motions, or null if the object can't split
+  fragment(_scale: number): BaseFallingObject | null {
+    return null;
+  }
+
+  abstract getBounds(): Bounds;
+  abstract getShape(): Shape;
+  abstract render(ctx: CanvasRenderingContext2D, alpha: number): void;
+
+  hasCollision(other: GameObject): boolean {
+    return shapesIntersect(this.getShape(), other.getShape());
+  }
+}
+
+export class FallingCircle extends BaseFallingObject {
+  radius: number;
+
+  constructor(location: Point, speedY: number, radius: number, color: string, borderColor: string) {
+    super(location, speedY, color, borderColor);
+    this.radius = radius;
+  }
+
+  fragment(scale: number): BaseFallingObject {
+    return new FallingCircle({ ...this.location }, this.speed.y, this.radius * scale, this.color, this.borderColor);
+  }
+
+  getBounds(): Bounds {
+    return {
+      x: this.location.x - this.radius,
+      y: this.location.y - this.radius,
+      width: this.radius * 2,
+      height: this.radius * 2,
+    };
+  }
+
+  getShape(): Shape {
+    return { kind: "circle", center: this.location, radius: this.radius };
+  }
+
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const pos = interpolate(this.previousLocation, this.location, alpha);
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(pos.x, pos.y, this.radius, 0, Math.PI * 2);
+    ctx.fillStyle = this.color;
+    ctx.fill();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = this.borderColor;
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+export class RotatingFallingSquare extends BaseFallingObject {
+  size: number;
+  angle = 0;
+  angularSpeed: number; // radians/sec
+
+  constructor(
+    location: Point,
+    speedY: number,
+    size: number,
+    color: string,
+    borderColor: string,
+    angularSpeed: number
+  ) {
+    super(location, speedY, color, borderColor);
+    this.size = size;
+    this.angularSpeed = angularSpeed;
+  }
+
+  move(deltaSeconds: number, field: GameField): void {
+    super.move(deltaSeconds, field);
+    this.angle += this.angularSpeed * deltaSeconds;
+  }
+
+  fragment(scale: number): BaseFallingObject {
+    const piece = new RotatingFallingSquare(
+      { ...this.location },
+      this.speed.y,
+      this.size * scale,
+      this.color,
+      this.borderColor,
+      this.angularSpeed
+    );
+    piece.angle = this.angle;
+    return piece;
+  }
+
+  getBounds(): Bounds {
+    // Unrotated box; hits use the rotated outline from getShape()
+    return {
+      x: this.location.x - this.size / 2,
+      y: this.location.y - this.size / 2,
+      width: this.size,
+      height: this.size,
+    };
+  }
+
+  getShape(): Shape {
+    const half = this.size / 2;
+    return polygonAround(this.location, this.angle, [
+      { x: -half, y: -half },
+      { x: half, y: -half },
+      { x: half, y: half },
+      { x: -half, y: half },
+    ]);
+  }
+
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const pos = interpolate(this.previousLocation, this.location, alpha);
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    ctx.rotate(this.angle);
+    ctx.fillStyle = this.color;
+    ctx.strokeStyle = this.borderColor;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    const half = this.size / 2;
+    ctx.rect(-half, -half, this.size, this.size);
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+export class RotatingFallingTriangle extends BaseFallingObject {
+  size: number;
+  angle = 0;
+  angularSpeed: number;
+
+  constructor(
+    location: Point,
+    speedY: number,
+    size: number,
+    color: string,
+    borderColor: string,
+    angularSpeed: number
+  ) {
+    super(location, speedY, color, borderColor);
+    this.size = size;
+    this.angularSpeed = angularSpeed;
+  }
+
+  move(deltaSeconds: number, field: GameField): void {
+    super.move(deltaSeconds, field);
+    this.angle += this.angularSpeed * deltaSeconds;
+  }
+
+  fragment(scale: number): BaseFallingObject {
+    const piece = new RotatingFallingTriangle(
+      { ...this.location },
+      this.speed.y,
+      this.size * scale,
+      this.color,
+      this.borderColor,
+      this.angularSpeed
+    );
+    piece.angle = this.angle;
+    return piece;
+  }
+
+  getBounds(): Bounds {
+    return {
+      x: this.location.x - this.size / 2,
+      y: this.location.y - this.size / 2,
+      width: this.size,
+      height: this.size,
+    };
+  }
+
+  getShape(): Shape {
+    const half = this.size / 2;
+    return polygonAround(this.location, this.angle, [
+      { x: 0, y: -half },
+      { x: half, y: half },
+      { x: -half, y: half },
+    ]);
+  }
+
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const pos = interpolate(this.previousLocation, this.location, alpha);
+    const half = this.size / 2;
+
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    ctx.rotate(this.angle);
+
+    ctx.beginPath();
+    ctx.moveTo(0, -half); // top
+    ctx.lineTo(half, half);
+    ctx.lineTo(-half, half);
+    ctx.closePath();
+
+    ctx.fillStyle = this.color;
+    ctx.fill();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = this.borderColor;
+    ctx.stroke();
+
+    ctx.restore();
+  }
+}
+
+// Emoji object – animals / tools
+export class FallingEmojiObject extends BaseFallingObject {
+  text: string;
+  fontSize: number;
+
+  constructor(location: Point, speedY: number, fontSize: number, text: string) {
+    super(location, speedY, "#ffffff", "#000000");
+    this.text = text;
+    this.fontSize = fontSize;
+  }
+
+  fragment(scale: number): BaseFallingObject {
+    return new FallingEmojiObject({ ...this.location }, this.speed.y, this.fontSize * scale, this.text);
+  }
+
+  getBounds(): Bounds {
+    const size = this.fontSize;
+    return {
+      x: this.location.x - size / 2,
+      y: this.location.y - size / 2,
+      width: size,
+      height: size,
+    };
+  }
+
+  getShape(): Shape {
+    // Emoji glyphs are roughly round and don't fill their whole em box
+    return { kind: "circle", center: this.location, radius: this.fontSize * 0.4 };
+  }
+
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const pos = interpolate(this.previousLocation, this.location, alpha);
+    ctx.save();
+    ctx.font = `${this.fontSize}px system-ui`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(this.text, pos.x, pos.y);
+    ctx.restore();
+  }
+}
+
+// Star-shaped falling object for space theme
+export class FallingStarObject extends BaseFallingObject {
+  size: number;
+  rotation: number = 0;
+
+  constructor(location: Point, speedY: number, size: number = 15) {
+    super(location, speedY, "#ffff00", "#ffcc00");
+    this.size = size;
+  }
+
+  fragment(scale: number): BaseFallingObject {
+    const piece = new FallingStarObject({ ...this.location }, this.speed.y, this.size * scale);
+    piece.rotation = this.rotation;
+    return piece;
+  }
+
+  getBounds(): Bounds {
+    return {
+      x: this.location.x - this.size,
+      y: this.location.y - this.size,
+      width: this.size * 2,
+      height: this.size * 2,
+    };
+  }
+
+  getShape(): Shape {
+    return starShape(this.location, this.rotation, 5, this.size, this.size / 2);
+  }
+
+  move(deltaSeconds: number, field: GameField): void {
+    this.rotation += 6 * deltaSeconds;
+    super.move(deltaSeconds, field);
+  }
+
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const pos = interpolate(this.previousLocation, this.location, alpha);
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    ctx.rotate(this.rotation);
+    ctx.fillStyle = this.color;
+    ctx.strokeStyle = this.borderColor;
+    ctx.lineWidth = 2;
+
+    // Draw star
+    const points = 5;
+    const outerRadius = this.size;
+    const innerRadius = this.size / 2;
+    ctx.beginPath();
+    for (let i = 0; i < points * 2; i++) {
+      const radius = i % 2 === 0 ? outerRadius : innerRadius;
+      const angle = (i * Math.PI) / points - Math.PI / 2;
+      const x = Math.cos(angle) * radius;
+      const y = Math.sin(angle) * radius;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+// Diamond-shaped falling object for ocean theme
+export class FallingDiamondObject extends BaseFallingObject {
+  size: number;
+
+  constructor(location: Point, speedY: number, size: number = 15) {
+    super(location, speedY, "#00ccff", "#0099cc");
+    this.size = size;
+  }
+
+  fragment(scale: number): BaseFallingObject {
+    return new FallingDiamondObject({ ...this.location }, this.speed.y, this.size * scale);
+  }
+
+  getBounds(): Bounds {
+    return {
+      x: this.location.x - this.size,
+      y: this.location.y - this.size,
+      width: this.size * 2,
+      height: this.size * 2,
+    };
+  }
+
+  getShape(): Shape {
+    return polygonAround(this.location, 0, [
+      { x: 0, y: -this.size },
+      { x: this.size, y: 0 },
+      { x: 0, y: this.size },
+      { x: -this.size, y: 0 },
+    ]);
+  }
+
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const pos = interpolate(this.previousLocation, this.location, alpha);
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    ctx.fillStyle = this.color;
+    ctx.strokeStyle = this.borderColor;
+    ctx.lineWidth = 2;
+
+    // Draw diamond
+    ctx.beginPath();
+    ctx.moveTo(0, -this.size);
+    ctx.lineTo(this.size, 0);
+    ctx.lineTo(0, this.size);
+    ctx.lineTo(-this.size, 0);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+// Collectible power-up: a glowing bubble with the power-up's icon
+export class FallingPowerUp extends BaseFallingObject {
+  role: ObjectRole = "powerUp";
+  kind: PowerUpKind;
+  radius = 17;
+  private age = 0; // seconds, drives the pulse
+
+  constructor(location: Point, speedY: number, kind: PowerUpKind) {
+    super(location, speedY, POWER_UP_INFO[kind].color, "#ffffff");
+    this.kind = kind;
+  }
+
+  move(deltaSeconds: number, field: GameField): void {
+    this.age += deltaSeconds;
+    super.move(deltaSeconds, field);
+  }
+
+  getBounds(): Bounds {
+    return {
+      x: this.location.x - this.radius,
+      y: this.location.y - this.radius,
+      width: this.radius * 2,
+      height: this.radius * 2,
+    };
+  }
+
+  getShape(): Shape {
+    return { kind: "circle", center: this.location, radius: this.radius };
+  }
+
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const pos = interpolate(this.previousLocation, this.location, alpha);
+    const pulse = 1 + Math.sin(this.age * 6) * 0.08;
+
+    ctx.save();
+    ctx.shadowColor = this.color;
+    ctx.shadowBlur = 18;
+    ctx.beginPath();
+    ctx.arc(pos.x, pos.y, this.radius * pulse, 0, Math.PI * 2);
+    ctx.fillStyle = this.color;
+    ctx.globalAlpha = 0.85;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = this.borderColor;
+    ctx.stroke();
+
+    ctx.shadowBlur = 0;
+    ctx.font = `${Math.round(this.radius * 1.1)}px system-ui`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(POWER_UP_INFO[this.kind].icon, pos.x, pos.y + 1);
+    ctx.restore();
+  }
+}
+
+export const PLAYER_SPEED = 420; // pixels per second
+
+export class Player implements GameObject {
+  role: ObjectRole = "player";
+  location: Point;
+  previousLocation: Point;
+  speed: Point = { x: 0, y: 0 };
+  width: number;
+  baseWidth: number; // width without power-up effects
+  height: number;
+  color: string;
+  borderColor: string;
+  isAlive = true;
+  invulnerableMs = 0; // remaining invulnerability after a hit
+  private moveSpeed = PLAYER_SPEED;
+
+  constructor(location: Point, width: number, height: number, color: string, borderColor: string) {
+    this.location = location;
+    this.previousLocation = { ...location };
+    this.width = width;
+    this.baseWidth = width;
+    this.height = height;
+    this.color = color;
+    this.borderColor = borderColor;
+  }
+
+  moveLeft(deltaSeconds: number): void {
+    this.location.x -= this.moveSpeed * deltaSeconds;
+  }
+
+  moveRight(deltaSeconds: number): void {
+    this.location.x += this.moveSpeed * deltaSeconds;
+  }
+
+  moveUp(deltaSeconds: number): void {
+    this.location.y -= this.moveSpeed * deltaSeconds;
+  }
+
+  moveDown(deltaSeconds: number): void {
+    this.location.y += this.moveSpeed * deltaSeconds;
+  }
+
+  // Analog movement: each axis of direction is a share of full speed
+  steer(direction: Point, deltaSeconds: number): void {
+    this.location.x += direction.x * this.moveSpeed * deltaSeconds;
+    this.location.y += direction.y * this.moveSpeed * deltaSeconds;
+  }
+
+  get isInvulnerable(): boolean {
+    return this.invulnerableMs > 0;
+  }
+
+  move(deltaSeconds: number, field: GameField): void {
+    this.invulnerableMs = Math.max(0, this.invulnerableMs - deltaSeconds * 1000);
+
+    // Clamp inside field horizontally
+    if (this.location.x < this.width / 2) {
+      this.location.x = this.width / 2;
+    }
+    if (this.location.x > field.width - this.width / 2) {
+      this.location.x = field.width - this.width / 2;
+    }
+    // Clamp inside field vertically
+    if (this.location.y < this.height / 2) {
+      this.location.y = this.height / 2;
+    }
+    if (this.location.y > field.height - this.height / 2) {
+      this.location.y = field.height - this.height / 2;
+    }
+  }
+
+  getBounds(): Bounds {
+    return {
+      x: this.location.x - this.width / 2,
+      y: this.location.y - this.height / 2,
+      width: this.width,
+      height: this.height,
+    };
+  }
+
+  getShape(): Shape {
+    return { kind: "rect", bounds: this.getBounds() };
+  }
+
+  hasCollision(other: GameObject): boolean {
+    return shapesIntersect(this.getShape(), other.getShape());
+  }
+
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const pos = interpolate(this.previousLocation, this.location, alpha);
+    const bounds = {
+      x: pos.x - this.width / 2,
+      y: pos.y - this.height / 2,
+      width: this.width,
+      height: this.height,
+    };
+    ctx.save();
+    // Blink while invulnerable
+    if (this.isInvulnerable && Math.floor(this.invulnerableMs / 120) % 2 === 0) {
+      ctx.globalAlpha = 0.25;
+    }
+    ctx.fillStyle = this.color;
+    ctx.strokeStyle = this.borderColor;
+    ctx.lineWidth = 2;
+    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.restore();
+  }
+}
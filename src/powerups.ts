@@ -0,0 +1,85 @@
+// ---------- Power-ups ----------
+
+export type PowerUpKind = "shield" | "slowMotion" | "shrink" | "clearScreen";
+
+export const POWER_UP_KINDS: PowerUpKind[] = ["shield", "slowMotion", "shrink", "clearScreen"];
+
+export interface PowerUpInfo {
+  icon: string;
+  color: string;
+  label: string;
+}
+
+export const POWER_UP_INFO: Record<PowerUpKind, PowerUpInfo> = {
+  shield: { icon: "🛡️", color: "#4c9bff", label: "Shield" },
+  slowMotion: { icon: "🐢", color: "#b07cff", label: "Slow motion" },
+  shrink: { icon: "🤏", color: "#ffb347", label: "Shrink" },
+  clearScreen: { icon: "💥", color: "#ff5e5e", label: "Clear screen" },
+};
+
+export const SLOW_MOTION_MS = 5000;
+export const SLOW_MOTION_FACTOR = 0.45; // falling speed while slowed
+export const SHRINK_MS = 6000;
+export const SHRINK_FACTOR = 0.55; // player width while shrunk
+export const MAX_SHIELD_CHARGES = 1;
+
+// Timers and charges of collected power-ups
+export class PowerUpState {
+  shieldCharges = 0;
+  slowMotionMs = 0;
+  shrinkMs = 0;
+
+  reset(): void {
+    this.shieldCharges = 0;
+    this.slowMotionMs = 0;
+    this.shrinkMs = 0;
+  }
+
+  update(deltaMs: number): void {
+    this.slowMotionMs = Math.max(0, this.slowMotionMs - deltaMs);
+    this.shrinkMs = Math.max(0, this.shrinkMs - deltaMs);
+  }
+
+  // Clear-screen has no lasting effect; the simulation applies it on pickup
+  activate(kind: PowerUpKind): void {
+    if (kind === "shield") {
+      this.shieldCharges = Math.min(MAX_SHIELD_CHARGES, this.shieldCharges + 1);
+    } else if (kind === "slowMotion") {
+      this.slowMotionMs = SLOW_MOTION_MS;
+    } else if (kind === "shrink") {
+      this.shrinkMs = SHRINK_MS;
+    }
+  }
+
+  // Returns true if a shield charge absorbed the hit
+  absorbHit(): boolean {
+    if (this.shieldCharges <= 0) {
+      return false;
+    }
+    this.shieldCharges--;
+    return true;
+  }
+
+  get timeScale(): number {
+    return this.slowMotionMs > 0 ? SLOW_MOTION_FACTOR : 1;
+  }
+
+  get widthScale(): number {
+    return this.shrinkMs > 0 ? SHRINK_FACTOR : 1;
+  }
+
+  // For the HUD: what's active and for how long (null = until used)
+  get active(): { kind: PowerUpKind; remainingMs: number | null }[] {
+    const active: { kind: PowerUpKind; remainingMs: number | null }[] = [];
+    if (this.shieldCharges > 0) {
+      active.push({ kind: "shield", remainingMs: null });
+    }
+    if (this.slowMotionMs > 0) {
+      active.push({ kind: "slowMotion", remainingMs: this.slowMotionMs });
+    }
+    if (this.shrinkMs > 0) {
+      active.push({ kind: "shrink", remainingMs: this.shrinkMs });
+    }
+    return active;
+  }
+}
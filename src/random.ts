@@ -0,0 +1,61 @@
+// ---------- Seeded Random ----------
+
+// Small, fast PRNG (mulberry32). The same seed always yields the same sequence,
+// so a run seed fully describes every level layout.
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  between(min: number, max: number): number {
+    return this.next() * (max - min) + min;
+  }
+
+  choice<T>(arr: T[]): T {
+    return arr[Math.floor(this.next() * arr.length)];
+  }
+}
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Independent sub-seed, e.g. one per level, so level N is identical
+// no matter how many random numbers earlier levels consumed.
+export function deriveSeed(seed: number, index: number): number {
+  let h = (seed ^ (Math.imul(index, 0x9e3779b1) + 0x7f4a7c15)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Accepts plain numbers ("12345") or any text ("my-challenge"), which is hashed.
+export function parseSeed(text: string | null): number | null {
+  if (text === null || text.trim() === "") {
+    return null;
+  }
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+  return hashText(trimmed);
+}
+
+// 32-bit FNV-1a
+export function hashText(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+}
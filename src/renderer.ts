@@ -0,0 +1,250 @@
+import { WORLD_HEIGHT, WORLD_WIDTH } from "./field";
+import { Point, interpolate } from "./geometry";
+import { renderShape } from "./collision";
+import { Fireworks } from "./fireworks";
+import type { Player } from "./objects";
+import { POWER_UP_INFO } from "./powerups";
+import { Random } from "./random";
+import { Simulation } from "./simulation";
+import type { Joystick } from "./touch";
+import { Viewport } from "./viewport";
+
+// ---------- Canvas Renderer ----------
+
+const HIT_FLASH_MS = 300;
+
+export class CanvasRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private stars: Point[] = [];
+  private flashUntil = 0; // performance.now() when the hit flash has faded
+  readonly viewport: Viewport;
+
+  // Debug overlay: outline the exact hit shapes
+  showHitboxes = false;
+
+  constructor(canvas: HTMLCanvasElement, seed: number) {
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas 2D context not available");
+    }
+
+    this.canvas = canvas;
+    this.ctx = context;
+    this.viewport = new Viewport(canvas);
+
+    const starsRng = new Random(seed);
+    for (let i = 0; i < 80; i++) {
+      this.stars.push({
+        x: starsRng.between(0, WORLD_WIDTH),
+        y: starsRng.between(0, WORLD_HEIGHT),
+      });
+    }
+  }
+
+  // alpha: 0..1 between the previous and current simulation step
+  render(sim: Simulation, fireworks: Fireworks, alpha: number = 1, joysticks: Joystick[] = []): void {
+    const ctx = this.ctx;
+    const w = WORLD_WIDTH;
+    const h = WORLD_HEIGHT;
+
+    // Letterbox bars stay clear; everything else is drawn in world units, clipped to the field
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.save();
+    this.viewport.apply(ctx);
+    ctx.beginPath();
+    ctx.rect(0, 0, w, h);
+    ctx.clip();
+
+    const theme = sim.theme;
+
+    ctx.save();
+    if (theme === "night") {
+      const grad = ctx.createLinearGradient(0, 0, 0, h);
+      grad.addColorStop(0, "#020617");
+      grad.addColorStop(1, "#020b3d");
+      ctx.fillStyle = grad;
+      ctx.fillRect(0, 0, w, h);
+
+      ctx.fillStyle = "#ffffff";
+      this.stars.forEach((s) => {
+        ctx.beginPath();
+        ctx.arc(s.x, s.y, 1.5, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    } else if (theme === "day") {
+      const grad = ctx.createLinearGradient(0, 0, 0, h);
+      grad.addColorStop(0, "#9ad9ff");
+      grad.addColorStop(1, "#e9f7ff");
+      ctx.fillStyle = grad;
+      ctx.fillRect(0, 0, w, h);
+
+      ctx.fillStyle = "#6cc070";
+      ctx.fillRect(0, h - 40, w, 40);
+    } else if (theme === "factory") {
+      const grad = ctx.createLinearGradient(0, 0, w, h);
+      grad.addColorStop(0, "#2b103e");
+      grad.addColorStop(1, "#7e3ff2");
+      ctx.fillStyle = grad;
+      ctx.fillRect(0, 0, w, h);
+
+      ctx.fillStyle = "rgba(255,255,255,0.1)";
+      for (let i = 0; i < 6; i++) {
+        const x = (i * w) / 6;
+        ctx.fillRect(x, 0, 8, h);
+      }
+    } else if (theme === "ocean") {
+      const grad = ctx.createLinearGradient(0, 0, 0, h);
+      grad.addColorStop(0, "#1a5f7a");
+      grad.addColorStop(0.5, "#2a8fa5");
+      grad.addColorStop(1, "#0d4a63");
+      ctx.fillStyle = grad;
+      ctx.fillRect(0, 0, w, h);
+
+      // Water waves effect
+      ctx.strokeStyle = "rgba(255,255,255,0.15)";
+      ctx.lineWidth = 2;
+      for (let i = 0; i < 5; i++) {
+        ctx.beginPath();
+        ctx.arc(w / 2, h / 2 + i * 40, 60 - i * 10, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    } else if (theme === "space") {
+      const grad = ctx.createLinearGradient(0, 0, w, h);
+      grad.addColorStop(0, "#000011");
+      grad.addColorStop(0.5, "#0a0033");
+      grad.addColorStop(1, "#000022");
+      ctx.fillStyle = grad;
+      ctx.fillRect(0, 0, w, h);
+
+      // Stars and nebula
+      ctx.fillStyle = "rgba(255,255,255,0.8)";
+      for (let i = 0; i < 15; i++) {
+        const x = Math.random() * w;
+        const y = Math.random() * h;
+        const r = Math.random() * 1.5;
+        ctx.beginPath();
+        ctx.arc(x, y, r, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      
+      // Purple nebula glow
+      ctx.fillStyle = "rgba(200,100,255,0.1)";
+      ctx.fillRect(0, 0, w / 2, h / 2);
+    }
+    ctx.restore();
+
+    for (const slot of sim.players) {
+      slot.player.render(ctx, alpha);
+      if (slot.powerUps.shieldCharges > 0) {
+        this.renderShield(slot.player, alpha);
+      }
+    }
+    this.renderRoleCues(sim, alpha);
+    sim.field.gameObjects.forEach((obj) => obj.render(ctx, alpha));
+
+    if (this.showHitboxes) {
+      this.renderHitboxes(sim);
+    }
+
+    // Render fireworks on top
+    fireworks.render(ctx);
+
+    this.renderFlash();
+    joysticks.forEach((joystick) => this.renderJoystick(joystick));
+    ctx.restore();
+  }
+
+  // Red tint over the whole field, fading out
+  flashHit(): void {
+    this.flashUntil = performance.now() + HIT_FLASH_MS;
+  }
+
+  private renderFlash(): void {
+    const remaining = this.flashUntil - performance.now();
+    if (remaining <= 0) {
+      return;
+    }
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.fillStyle = "#ff2b2b";
+    ctx.globalAlpha = 0.35 * (remaining / HIT_FLASH_MS);
+    ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+    ctx.restore();
+  }
+
+  // On-screen stick: a faint ring where the finger came down, the knob under the finger
+  private renderJoystick({ base, knob, radius }: Joystick): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.globalAlpha = 0.35;
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(base.x, base.y, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.globalAlpha = 0.5;
+    ctx.fillStyle = "#ffffff";
+    ctx.beginPath();
+    ctx.arc(knob.x, knob.y, radius / 2.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  private renderShield(player: Player, alpha: number): void {
+    const ctx = this.ctx;
+    const pos = interpolate(player.previousLocation, player.location, alpha);
+    ctx.save();
+    ctx.strokeStyle = POWER_UP_INFO.shield.color;
+    ctx.lineWidth = 2;
+    ctx.globalAlpha = 0.8;
+    ctx.beginPath();
+    ctx.ellipse(pos.x, pos.y, player.width / 2 + 10, player.height / 2 + 10, 0, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Green glow around what to catch; on mixed levels also a red ring around what to avoid
+  private renderRoleCues(sim: Simulation, alpha: number): void {
+    const ctx = this.ctx;
+    const mixed = sim.rules.hasLevels && sim.currentLevel.catchKind !== null;
+    ctx.save();
+    for (const obj of sim.field.gameObjects) {
+      if (obj.role !== "collectible" && !(mixed && obj.role === "hazard")) {
+        continue;
+      }
+      const bounds = obj.getBounds();
+      const pos = interpolate(obj.previousLocation, obj.location, alpha);
+      const radius = Math.max(bounds.width, bounds.height) / 2 + 6;
+      if (obj.role === "collectible") {
+        ctx.strokeStyle = "#44ff44";
+        ctx.shadowColor = "#44ff44";
+        ctx.shadowBlur = 12;
+        ctx.lineWidth = 3;
+        ctx.setLineDash([]);
+      } else {
+        ctx.strokeStyle = "#ff4d6d";
+        ctx.shadowBlur = 0;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([5, 4]);
+      }
+      ctx.beginPath();
+      ctx.arc(pos.x, pos.y, radius, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  // Drawn at the simulated (not interpolated) positions, since that's what collides
+  private renderHitboxes(sim: Simulation): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = "#ff00ff";
+    sim.field.gameObjects.forEach((obj) => renderShape(ctx, obj.getShape()));
+    ctx.strokeStyle = "#00ffff";
+    sim.players.forEach((slot) => renderShape(ctx, slot.player.getShape()));
+    ctx.restore();
+  }
+}
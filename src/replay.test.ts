@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { WORLD_HEIGHT, WORLD_WIDTH } from "./field";
+import { ReplayPlayer, ReplayRecorder, parseReplay, serializeReplay } from "./replay";
+import { FIXED_STEP_MS, MovementInput, NO_INPUT, Simulation } from "./simulation";
+
+const STEP_SECONDS = FIXED_STEP_MS / 1000;
+const SEED = 31337;
+const STEPS = 1500;
+
+// Sweeps left and right, with a stretch of analog stick in between
+function scriptedInput(tick: number): MovementInput {
+  const phase = tick % 180;
+  if (phase < 60) {
+    return { ...NO_INPUT, left: true };
+  }
+  if (phase < 120) {
+    return { ...NO_INPUT, stick: { x: 0.55, y: -0.1 } };
+  }
+  return { ...NO_INPUT, right: true, down: phase % 2 === 0 };
+}
+
+function summary(sim: Simulation) {
+  return {
+    status: sim.status,
+    tick: sim.tick,
+    level: sim.currentLevelIndex,
+    score: sim.totalScore,
+    lives: sim.players.map((slot) => slot.lives),
+    location: { ...sim.player.location },
+  };
+}
+
+describe("replays", () => {
+  it("round-trip through JSON to the same tick and score", () => {
+    const live = new Simulation(WORLD_WIDTH, WORLD_HEIGHT, SEED);
+    live.start(SEED);
+    const recorder = new ReplayRecorder(SEED);
+    while (live.tick < STEPS && live.status === "RUNNING") {
+      const inputs = [scriptedInput(live.tick)];
+      recorder.record(live.tick, inputs);
+      live.step(STEP_SECONDS, inputs);
+    }
+    const replay = parseReplay(serializeReplay(recorder.finish()));
+    expect(replay.frames.length).toBeLessThan(live.tick);
+
+    const played = new Simulation(WORLD_WIDTH, WORLD_HEIGHT, replay.seed);
+    played.start(replay.seed, replay.startLevel, replay.mode);
+    const player = new ReplayPlayer(replay);
+    while (!player.isFinished(played.tick) && played.status === "RUNNING") {
+      played.step(STEP_SECONDS, player.inputsAt(played.tick));
+    }
+
+    expect(summary(played)).toEqual(summary(live));
+    expect(played.totalScore).toBeGreaterThan(0);
+  });
+
+  it("rejects files that aren't replays", () => {
+    expect(() => parseReplay("not json")).toThrow("not a JSON file");
+    expect(() => parseReplay(JSON.stringify({ version: 99 }))).toThrow("unsupported version 99");
+    const badFrame = { version: 2, seed: 1, ticks: 1, frames: [{ tick: 0, inputs: [{ left: "yes" }] }] };
+    expect(() => parseReplay(JSON.stringify(badFrame))).toThrow("frame 0 is malformed");
+  });
+
+  it("refuses files missing the current format's fields", () => {
+    const recorder = new ReplayRecorder(SEED);
+    recorder.record(0, [NO_INPUT]);
+    const replay = JSON.parse(serializeReplay(recorder.finish()));
+    expect(parseReplay(JSON.stringify(replay)).pack).toBe(replay.pack);
+
+    expect(() => parseReplay(JSON.stringify({ ...replay, version: 1 }))).toThrow("unsupported version 1");
+    expect(() => parseReplay(JSON.stringify({ ...replay, pack: undefined }))).toThrow("malformed level pack");
+    expect(() => parseReplay(JSON.stringify({ ...replay, startLevel: undefined }))).toThrow("malformed start level");
+    const noStick = { ...replay, frames: [{ tick: 0, inputs: [{ ...NO_INPUT, stick: undefined }] }] };
+    expect(() => parseReplay(JSON.stringify(noStick))).toThrow("frame 0 has a malformed stick");
+  });
+});
@@ -0,0 +1,183 @@
+import type { Point } from "./geometry";
+import { DEFAULT_LEVEL_PACK, LevelPack, levelPackHash } from "./levelpack";
+import { GAME_MODES, GameMode } from "./modes";
+import { MovementInput, NO_INPUT } from "./simulation";
+
+// ---------- Replays ----------
+//
+// A replay is the run seed plus every change of input, stamped with the
+// simulation tick it applied to. Since the simulation is deterministic for a
+// given seed and level pack, feeding the same inputs back reproduces the run
+// exactly.
+
+// Files of any other version are refused
+export const REPLAY_VERSION = 2;
+
+export interface InputFrame {
+  tick: number;
+  inputs: MovementInput[]; // one per player
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  startLevel: number; // level index the run started from
+  mode: GameMode;
+  pack: string; // name of the level pack played
+  packHash: number; // levelPackHash of that pack
+  ticks: number; // total simulated ticks in the recording
+  frames: InputFrame[];
+}
+
+function samePoint(a: Point | null, b: Point | null): boolean {
+  return a === b || (a !== null && b !== null && a.x === b.x && a.y === b.y);
+}
+
+// Keys and stick, everything that stays held across ticks
+function sameHeld(a: MovementInput, b: MovementInput): boolean {
+  return a.left === b.left && a.right === b.right && a.up === b.up && a.down === b.down && samePoint(a.stick, b.stick);
+}
+
+function copyInput(input: MovementInput): MovementInput {
+  return { ...input, stick: input.stick ? { ...input.stick } : null };
+}
+
+export class ReplayRecorder {
+  private frames: InputFrame[] = [];
+  private last: MovementInput[] | null = null;
+  private lastTick = 0;
+
+  constructor(
+    private seed: number,
+    private startLevel: number = 0,
+    private mode: GameMode = "campaign",
+    private pack: LevelPack = DEFAULT_LEVEL_PACK
+  ) {}
+
+  record(tick: number, inputs: MovementInput[]): void {
+    this.lastTick = tick;
+    // Held keys and sticks only need recording when they change
+    const last = this.last;
+    const unchanged =
+      last !== null && last.length === inputs.length && inputs.every((input, i) => sameHeld(input, last[i]));
+    if (unchanged) {
+      return;
+    }
+    this.frames.push({ tick, inputs: inputs.map(copyInput) });
+    this.last = inputs;
+  }
+
+  finish(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      startLevel: this.startLevel,
+      mode: this.mode,
+      pack: this.pack.name,
+      packHash: levelPackHash(this.pack),
+      ticks: this.lastTick + 1,
+      frames: this.frames.slice(),
+    };
+  }
+}
+
+export class ReplayPlayer {
+  private cursor = 0;
+  private held: MovementInput[] = [NO_INPUT];
+
+  constructor(readonly replay: Replay) {}
+
+  inputsAt(tick: number): MovementInput[] {
+    const frames = this.replay.frames;
+    while (this.cursor < frames.length && frames[this.cursor].tick <= tick) {
+      this.held = frames[this.cursor++].inputs;
+    }
+    return this.held;
+  }
+
+  isFinished(tick: number): boolean {
+    return tick >= this.replay.ticks;
+  }
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPoint(value: unknown): value is Point {
+  return isRecord(value) && typeof value.x === "number" && typeof value.y === "number";
+}
+
+function isGameMode(value: unknown): value is GameMode {
+  return GAME_MODES.includes(value as GameMode);
+}
+
+function parseInput(input: unknown, frameIndex: number): MovementInput {
+  if (
+    !isRecord(input) ||
+    typeof input.left !== "boolean" ||
+    typeof input.right !== "boolean" ||
+    typeof input.up !== "boolean" ||
+    typeof input.down !== "boolean"
+  ) {
+    throw new Error(`Invalid replay: frame ${frameIndex} is malformed`);
+  }
+  const stick = input.stick;
+  if (stick !== null && !isPoint(stick)) {
+    throw new Error(`Invalid replay: frame ${frameIndex} has a malformed stick`);
+  }
+  return {
+    left: input.left,
+    right: input.right,
+    up: input.up,
+    down: input.down,
+    stick: stick ? { x: stick.x, y: stick.y } : null,
+  };
+}
+
+function parseFrame(frame: unknown, frameIndex: number): InputFrame {
+  if (!isRecord(frame) || typeof frame.tick !== "number" || !Array.isArray(frame.inputs) || frame.inputs.length === 0) {
+    throw new Error(`Invalid replay: frame ${frameIndex} is malformed`);
+  }
+  return { tick: frame.tick, inputs: frame.inputs.map((input: unknown) => parseInput(input, frameIndex)) };
+}
+
+// Throws with a readable message when the file isn't a replay we can play
+export function parseReplay(json: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid replay: not a JSON file");
+  }
+
+  if (!isRecord(data)) {
+    throw new Error("Invalid replay: expected an object");
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Invalid replay: unsupported version ${String(data.version)}`);
+  }
+  if (typeof data.seed !== "number" || typeof data.ticks !== "number" || !Array.isArray(data.frames)) {
+    throw new Error("Invalid replay: missing seed, ticks or frames");
+  }
+
+  const frames = data.frames.map((frame: unknown, i) => parseFrame(frame, i));
+
+  const { startLevel, mode, pack, packHash } = data;
+  if (typeof startLevel !== "number" || !Number.isInteger(startLevel) || startLevel < 0) {
+    throw new Error("Invalid replay: malformed start level");
+  }
+  if (!isGameMode(mode)) {
+    throw new Error(`Invalid replay: unknown mode ${String(mode)}`);
+  }
+  if (typeof pack !== "string" || typeof packHash !== "number") {
+    throw new Error("Invalid replay: malformed level pack");
+  }
+
+  const seed = data.seed >>> 0;
+  return { version: REPLAY_VERSION, seed, startLevel, mode, pack, packHash, ticks: data.ticks, frames };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { FallingCircle, Player } from "./objects";
+import { NEAR_MISS_DISTANCE, NEAR_MISS_POINTS, NEAR_MISSES_PER_MULTIPLIER, ScoreKeeper } from "./scoring";
+
+const RADIUS = 10;
+
+// A 60x20 player whose right edge is at x = 430
+function makePlayer(): Player {
+  return new Player({ x: 400, y: 450 }, 60, 20, "green", "black");
+}
+
+// A circle falling past the player with this much room between its edge and the player's right edge
+function circleBeside(gap: number): FallingCircle {
+  return new FallingCircle({ x: 430 + gap + RADIUS, y: 380 }, 0, RADIUS, "red", "black");
+}
+
+// Moves the circle down past the player, tracking near misses each step; returns the points earned
+function dropPast(score: ScoreKeeper, player: Player, circle: FallingCircle): number {
+  let points = 0;
+  for (let y = 380; y <= 520; y += 5) {
+    circle.location.y = y;
+    points += score.trackNearMisses([circle], player);
+  }
+  return points;
+}
+
+describe("ScoreKeeper near misses", () => {
+  it("counts an object passing just inside the threshold", () => {
+    const score = new ScoreKeeper();
+    expect(dropPast(score, makePlayer(), circleBeside(NEAR_MISS_DISTANCE - 1))).toBe(NEAR_MISS_POINTS);
+    expect(score.levelBreakdown().nearMissCount).toBe(1);
+    expect(score.total).toBe(NEAR_MISS_POINTS);
+  });
+
+  it("ignores objects passing outside the threshold", () => {
+    const score = new ScoreKeeper();
+    expect(dropPast(score, makePlayer(), circleBeside(NEAR_MISS_DISTANCE + 1))).toBe(0);
+    expect(score.streak).toBe(0);
+  });
+
+  it("never counts an object that touched the player", () => {
+    const score = new ScoreKeeper();
+    const circle = new FallingCircle({ x: 400, y: 380 }, 0, RADIUS, "red", "black");
+    expect(dropPast(score, makePlayer(), circle)).toBe(0);
+  });
+
+  it("counts each object once", () => {
+    const score = new ScoreKeeper();
+    const player = makePlayer();
+    const circle = circleBeside(2);
+    dropPast(score, player, circle);
+    // The same object coming by again earns nothing
+    expect(dropPast(score, player, circle)).toBe(0);
+    expect(score.levelBreakdown().nearMissCount).toBe(1);
+  });
+
+  it("raises the multiplier with the streak and resets it on a hit", () => {
+    const score = new ScoreKeeper();
+    const player = makePlayer();
+    for (let i = 1; i < NEAR_MISSES_PER_MULTIPLIER; i++) {
+      expect(dropPast(score, player, circleBeside(2))).toBe(NEAR_MISS_POINTS);
+    }
+    // The near miss that completes the streak already earns double
+    expect(dropPast(score, player, circleBeside(2))).toBe(NEAR_MISS_POINTS * 2);
+    expect(score.multiplier).toBe(2);
+    expect(score.levelBreakdown().bestStreak).toBe(NEAR_MISSES_PER_MULTIPLIER);
+
+    score.playerHit();
+    expect(score.streak).toBe(0);
+    expect(score.multiplier).toBe(1);
+    expect(dropPast(score, player, circleBeside(2))).toBe(NEAR_MISS_POINTS);
+    // The best streak of the level survives the hit
+    expect(score.levelBreakdown().bestStreak).toBe(NEAR_MISSES_PER_MULTIPLIER);
+  });
+});
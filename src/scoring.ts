@@ -0,0 +1,166 @@
+import { Bounds, boundsIntersect } from "./geometry";
+import type { GameObject } from "./objects";
+
+// ---------- Scoring ----------
+
+export const SURVIVAL_POINTS_PER_SECOND = 10;
+export const DODGE_POINTS = 5;
+// An object passing within this many pixels of the player, without touching, is a near miss
+export const NEAR_MISS_DISTANCE = 14;
+export const NEAR_MISS_POINTS = 25;
+// Every 3 near misses in a row raise the multiplier by one, up to x5
+export const NEAR_MISSES_PER_MULTIPLIER = 3;
+export const MAX_MULTIPLIER = 5;
+export const CATCH_POINTS = 10;
+// Letting a collectible fall out, where misses have no limit of their own
+export const MISS_PENALTY = 25;
+
+export interface LevelScore {
+  survival: number;
+  dodged: number;
+  dodgedCount: number;
+  nearMiss: number;
+  nearMissCount: number;
+  bestStreak: number;
+  caught: number;
+  caughtCount: number;
+  missedCount: number; // collectibles that fell out
+  penalty: number; // points lost to hits and misses
+  total: number;
+}
+
+function emptyLevelScore(): LevelScore {
+  return {
+    survival: 0,
+    dodged: 0,
+    dodgedCount: 0,
+    nearMiss: 0,
+    nearMissCount: 0,
+    bestStreak: 0,
+    caught: 0,
+    caughtCount: 0,
+    missedCount: 0,
+    penalty: 0,
+    total: 0,
+  };
+}
+
+function expand(bounds: Bounds, by: number): Bounds {
+  return {
+    x: bounds.x - by,
+    y: bounds.y - by,
+    width: bounds.width + by * 2,
+    height: bounds.height + by * 2,
+  };
+}
+
+export class ScoreKeeper {
+  total = 0;
+  streak = 0; // near misses in a row since the last hit
+
+  private level: LevelScore = emptyLevelScore();
+  private survivalMs = 0;
+  // Objects that came close to the player / actually touched it
+  private closeCalls = new WeakSet<GameObject>();
+  private touched = new WeakSet<GameObject>();
+
+  get multiplier(): number {
+    return Math.min(MAX_MULTIPLIER, 1 + Math.floor(this.streak / NEAR_MISSES_PER_MULTIPLIER));
+  }
+
+  // Collectibles missed this level
+  get missedCount(): number {
+    return this.level.missedCount;
+  }
+
+  reset(): void {
+    this.total = 0;
+    this.streak = 0;
+    this.beginLevel();
+  }
+
+  beginLevel(): void {
+    this.level = emptyLevelScore();
+    this.survivalMs = 0;
+    this.closeCalls = new WeakSet();
+    this.touched = new WeakSet();
+  }
+
+  levelBreakdown(): LevelScore {
+    return { ...this.level };
+  }
+
+  addSurvival(deltaSeconds: number): void {
+    this.survivalMs += deltaSeconds * 1000;
+    const earned = Math.floor((this.survivalMs / 1000) * SURVIVAL_POINTS_PER_SECOND);
+    this.add("survival", earned - this.level.survival);
+  }
+
+  // Call once per step, after objects moved. Returns the points of near misses completed this step.
+  trackNearMisses(objects: GameObject[], player: GameObject): number {
+    const playerBounds = player.getBounds();
+    const zone = expand(playerBounds, NEAR_MISS_DISTANCE);
+    const playerBottom = playerBounds.y + playerBounds.height;
+    let points = 0;
+
+    for (const obj of objects) {
+      if (!obj.isAlive || this.touched.has(obj)) {
+        continue;
+      }
+      const bounds = obj.getBounds();
+      if (obj.hasCollision(player)) {
+        this.touched.add(obj);
+        this.closeCalls.delete(obj);
+      } else if (boundsIntersect(bounds, zone)) {
+        this.closeCalls.add(obj);
+      } else if (this.closeCalls.has(obj) && bounds.y > playerBottom) {
+        // Passed the player without touching it
+        this.closeCalls.delete(obj);
+        this.touched.add(obj);
+        this.streak++;
+        this.level.nearMissCount++;
+        this.level.bestStreak = Math.max(this.level.bestStreak, this.streak);
+        const earned = NEAR_MISS_POINTS * this.multiplier;
+        this.add("nearMiss", earned);
+        points += earned;
+      }
+    }
+
+    return points;
+  }
+
+  objectLeftField(): void {
+    this.level.dodgedCount++;
+    this.add("dodged", DODGE_POINTS * this.multiplier);
+  }
+
+  objectCaught(): number {
+    this.level.caughtCount++;
+    const earned = CATCH_POINTS * this.multiplier;
+    this.add("caught", earned);
+    return earned;
+  }
+
+  objectMissed(): void {
+    this.level.missedCount++;
+  }
+
+  playerHit(): void {
+    this.streak = 0;
+  }
+
+  // Takes points off, never below zero; returns how many were lost
+  penalize(points: number): number {
+    const lost = Math.min(points, this.total);
+    this.level.penalty += lost;
+    this.level.total -= lost;
+    this.total -= lost;
+    return lost;
+  }
+
+  private add(category: "survival" | "dodged" | "nearMiss" | "caught", points: number): void {
+    this.level[category] += points;
+    this.level.total += points;
+    this.total += points;
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  ACTIONS,
+  ACTION_LABELS,
+  Action,
+  BINDING_SLOTS,
+  Bindings,
+  DEFAULT_BINDINGS,
+  TOUCH_SCHEMES,
+  TOUCH_SCHEME_LABELS,
+  TouchScheme,
+  findConflicts,
+  keyLabel,
+  normalizeKey,
+} from "./controls";
+
+// ---------- Settings ----------
+//
+// The controls overlay: one row per action with a button per key slot. Click
+// a slot, then press the key to bind it; Escape cancels and Backspace clears
+// the slot. Below, a choice of touch scheme. Every change is handed on right away.
+
+export class SettingsScreen {
+  private overlay = document.getElementById("settings-overlay") as HTMLDivElement;
+  private list = document.getElementById("settings-bindings") as HTMLDivElement;
+  private conflictsLabel = document.getElementById("settings-conflicts") as HTMLDivElement;
+  private touchSchemeSelect = document.getElementById("settings-touch-scheme") as HTMLSelectElement;
+  private bindings: Bindings = DEFAULT_BINDINGS;
+  private listening: { action: Action; slot: number } | null = null;
+
+  constructor(
+    private onChange: (bindings: Bindings) => void,
+    onTouchSchemeChange: (scheme: TouchScheme) => void
+  ) {
+    this.touchSchemeSelect.replaceChildren(
+      ...TOUCH_SCHEMES.map((scheme) => new Option(TOUCH_SCHEME_LABELS[scheme], scheme))
+    );
+    this.touchSchemeSelect.addEventListener("change", () =>
+      onTouchSchemeChange(this.touchSchemeSelect.value as TouchScheme)
+    );
+    const btnReset = document.getElementById("btn-reset-bindings") as HTMLButtonElement;
+    const btnClose = document.getElementById("btn-close-settings") as HTMLButtonElement;
+    btnReset.addEventListener("click", () => this.change(DEFAULT_BINDINGS));
+    btnClose.addEventListener("click", () => this.hide());
+    // Capture phase, so a key being bound never reaches the game
+    window.addEventListener("keydown", (e) => this.handleKey(e), true);
+  }
+
+  get isOpen(): boolean {
+    return !this.overlay.classList.contains("hidden");
+  }
+
+  show(bindings: Bindings, touchScheme: TouchScheme): void {
+    this.bindings = bindings;
+    this.touchSchemeSelect.value = touchScheme;
+    this.listening = null;
+    this.refresh();
+    this.overlay.classList.remove("hidden");
+  }
+
+  hide(): void {
+    this.listening = null;
+    this.overlay.classList.add("hidden");
+  }
+
+  private handleKey(e: KeyboardEvent): void {
+    if (!this.isOpen) {
+      return;
+    }
+    e.preventDefault();
+    e.stopImmediatePropagation();
+    const listening = this.listening;
+    if (!listening) {
+      if (e.key === "Escape") {
+        this.hide();
+      }
+      return;
+    }
+
+    this.listening = null;
+    if (e.key === "Escape") {
+      this.refresh();
+      return;
+    }
+    const keys = this.bindings[listening.action].slice();
+    if (e.key === "Backspace" || e.key === "Delete") {
+      keys.splice(listening.slot, 1);
+    } else {
+      keys[listening.slot] = normalizeKey(e.key);
+    }
+    // Bound once per action is enough
+    this.change({ ...this.bindings, [listening.action]: [...new Set(keys)] });
+  }
+
+  private change(bindings: Bindings): void {
+    this.bindings = bindings;
+    this.refresh();
+    this.onChange(bindings);
+  }
+
+  private refresh(): void {
+    const rows = ACTIONS.map((action) => {
+      const row = document.createElement("div");
+      row.className = "settings-row";
+      const label = document.createElement("span");
+      label.textContent = ACTION_LABELS[action];
+      row.append(label);
+
+      for (let slot = 0; slot < BINDING_SLOTS; slot++) {
+        const button = document.createElement("button");
+        const key = this.bindings[action][slot];
+        const waiting = this.listening?.action === action && this.listening.slot === slot;
+        button.className = "settings-key";
+        button.textContent = waiting ? "Press a key…" : key !== undefined ? keyLabel(key) : "—";
+        button.classList.toggle("waiting", waiting);
+        // A new key always fills the first free slot, never leaves a gap
+        button.disabled = slot > this.bindings[action].length;
+        button.addEventListener("click", () => {
+          this.listening = waiting ? null : { action, slot };
+          this.refresh();
+        });
+        row.append(button);
+      }
+      return row;
+    });
+    this.list.replaceChildren(...rows);
+
+    const conflicts = [...findConflicts(this.bindings)].map(
+      ([key, actions]) => `⚠️ ${keyLabel(key)} is bound to ${actions.map((a) => ACTION_LABELS[a]).join(" and ")}`
+    );
+    this.conflictsLabel.replaceChildren(
+      ...conflicts.map((text) => {
+        const line = document.createElement("div");
+        line.textContent = text;
+        return line;
+      })
+    );
+  }
+}
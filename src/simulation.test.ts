@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { WORLD_HEIGHT, WORLD_WIDTH } from "./field";
+import type { LevelDefinition, LevelPack } from "./levelpack";
+import { FIXED_STEP_MS, MovementInput, NO_INPUT, Simulation, SimulationEvent, START_LIVES } from "./simulation";
+
+const STEP_SECONDS = FIXED_STEP_MS / 1000;
+
+// A level with nothing but the given spawns
+function handcrafted(duration: number, spawns: LevelDefinition["spawns"] = []): LevelDefinition {
+  return { duration, difficulty: 1, theme: "night", kind: "shapes", density: 0, spawns };
+}
+
+// One empty second, then large circles dropped on the middle of the field, far enough apart that
+// each lands after the invulnerability of the hit before has run out
+const TEST_PACK: LevelPack = {
+  name: "Test",
+  levels: [
+    handcrafted(1000),
+    handcrafted(
+      20000,
+      [0, 4000, 8000].map((time) => ({ time, x: 0.5, speed: 400, type: "circle" as const, size: 80 }))
+    ),
+  ],
+};
+
+// Steps until the status changes (or the step limit is hit), collecting every event
+function runWhile(sim: Simulation, input: MovementInput, maxSteps = 5000): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  const status = sim.status;
+  for (let i = 0; i < maxSteps && sim.status === status; i++) {
+    events.push(...sim.step(STEP_SECONDS, [input]));
+  }
+  return events;
+}
+
+describe("Simulation", () => {
+  it("goes from RUNNING to LEVEL_PASSED to GAME_OVER", () => {
+    const sim = new Simulation(WORLD_WIDTH, WORLD_HEIGHT, 1, TEST_PACK);
+    expect(sim.status).toBe("IDLE");
+
+    sim.start(1);
+    expect(sim.status).toBe("RUNNING");
+
+    // An empty level passes once its time is up
+    const passed = runWhile(sim, NO_INPUT);
+    expect(sim.status).toBe("LEVEL_PASSED");
+    expect(sim.levelElapsedMs).toBeGreaterThanOrEqual(1000);
+    expect(sim.levelElapsedMs).toBeLessThan(1000 + 2 * FIXED_STEP_MS);
+    const finished = expect.objectContaining({ type: "levelFinished", levelIndex: 0, isLastLevel: false });
+    expect(passed).toContainEqual(finished);
+
+    // Nothing moves between levels
+    expect(sim.step(STEP_SECONDS, [NO_INPUT])).toEqual([]);
+    expect(sim.advanceToNextLevel()).toBe(true);
+    expect(sim.status).toBe("RUNNING");
+    expect(sim.currentLevelIndex).toBe(1);
+
+    // Standing still under every drop costs all lives
+    const hitEvents = runWhile(sim, NO_INPUT);
+    expect(sim.status).toBe("GAME_OVER");
+    expect(hitEvents.filter((event) => event.type === "playerHit")).toHaveLength(START_LIVES);
+    expect(hitEvents.at(-1)).toEqual({ type: "gameOver", reason: "noLives" });
+    expect(sim.players[0].lives).toBe(0);
+  });
+
+  it("dodges the same drops by moving out of the way", () => {
+    const sim = new Simulation(WORLD_WIDTH, WORLD_HEIGHT, 1, TEST_PACK);
+    sim.start(1, 1);
+    const events = runWhile(sim, { ...NO_INPUT, left: true });
+    expect(sim.status).toBe("FINISHED");
+    expect(events.some((event) => event.type === "playerHit")).toBe(false);
+    expect(sim.players[0].lives).toBe(START_LIVES);
+  });
+
+  it("plays out the same for the same seed and inputs", () => {
+    const play = () => {
+      const sim = new Simulation(WORLD_WIDTH, WORLD_HEIGHT, 2024);
+      sim.start(2024);
+      for (let i = 0; i < 600 && sim.status === "RUNNING"; i++) {
+        sim.step(STEP_SECONDS, [{ ...NO_INPUT, left: i % 120 < 60, right: i % 120 >= 60 }]);
+      }
+      const objects = sim.field.gameObjects.length;
+      return { tick: sim.tick, score: sim.totalScore, location: sim.player.location, objects };
+    };
+    expect(play()).toEqual(play());
+  });
+
+  it("calls it a draw when both versus players lose their last life in the same step", () => {
+    // The same drops as TEST_PACK, over the middle of each player's paddle at once
+    const middles = [1, 2].map((i) => i / 3 + 55 / WORLD_WIDTH);
+    const drops = [0, 4000, 8000].flatMap((time) =>
+      middles.map((x) => ({ time, x, speed: 400, type: "circle" as const, size: 80 }))
+    );
+    const sim = new Simulation(WORLD_WIDTH, WORLD_HEIGHT, 1, { name: "Draw", levels: [handcrafted(20000, drops)] });
+    sim.start(1, 0, "versus");
+
+    const events: SimulationEvent[] = [];
+    for (let i = 0; i < 5000 && sim.status === "RUNNING"; i++) {
+      events.push(...sim.step(STEP_SECONDS, [NO_INPUT, NO_INPUT]));
+    }
+    expect(sim.status).toBe("GAME_OVER");
+    expect(events.filter((event) => event.type === "playerHit")).toHaveLength(2 * START_LIVES);
+    expect(sim.players.every((slot) => slot.isOut)).toBe(true);
+    expect(sim.winner).toBeNull();
+  });
+});
@@ -0,0 +1,458 @@
+import { Point } from "./geometry";
+import { GameField } from "./field";
+import { Level, LevelTheme, generateCampaign } from "./level";
+import { DEFAULT_LEVEL_PACK, LevelPack } from "./levelpack";
+import { GameMode, MODE_RULES, ModeRules, Spawner } from "./modes";
+import { FallingPowerUp, GameObject, Player } from "./objects";
+import { PowerUpKind, PowerUpState } from "./powerups";
+import { LevelScore, MISS_PENALTY, ScoreKeeper } from "./scoring";
+
+// ---------- Simulation ----------
+//
+// Everything that decides what happens in a run: spawning, movement,
+// collisions and status transitions. No DOM, no canvas, no timers, so it
+// can be stepped frame by frame under Node.
+
+export type GameStatus =
+  | "IDLE"
+  | "RUNNING"
+  | "PAUSED"
+  | "STOPPED"
+  | "GAME_OVER"
+  | "LEVEL_PASSED"
+  | "FINISHED";
+
+// The simulation always advances in fixed steps, independent of the display refresh rate.
+export const FIXED_STEP_MS = 1000 / 60;
+
+// Player intent for one simulation step
+export interface MovementInput {
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  down: boolean;
+  stick: Point | null; // analog direction, each axis -1..1 as a share of the player's speed
+}
+
+export const NO_INPUT: MovementInput = {
+  left: false,
+  right: false,
+  up: false,
+  down: false,
+  stick: null,
+};
+
+export const START_LIVES = 3;
+// After a hit the player blinks and can't be hit again for a moment
+export const HIT_INVULNERABILITY_MS = 2000;
+// Objects this close to the player are cleared on a hit, so one crowd can't take several lives
+export const HIT_CLEAR_RADIUS = 140;
+// Shorter grace period when a shield took the hit
+export const SHIELD_INVULNERABILITY_MS = 1000;
+// Fewest misses a level allows, however few objects it has
+export const MIN_MISS_LIMIT = 3;
+// Paddle colors of player one and two
+export const PLAYER_COLORS = ["#22e246", "#3da5ff"];
+const PLAYER_WIDTH = 110;
+const PLAYER_HEIGHT = 18;
+
+export type GameOverReason = "noLives" | "timeUp" | "tooManyMissed";
+
+export type SimulationEvent =
+  | { type: "playerHit"; player: number; livesLeft: number; pointsLost: number; cleared: Point[] }
+  | { type: "gameOver"; reason: GameOverReason }
+  | { type: "shieldUsed"; player: number; cleared: Point[] }
+  | { type: "powerUpCollected"; player: number; kind: PowerUpKind; at: Point }
+  | { type: "objectCaught"; player: number; points: number; at: Point }
+  | { type: "objectMissed"; pointsLost: number; at: Point }
+  | { type: "screenCleared"; cleared: Point[] }
+  | { type: "nearMiss"; player: number; points: number; multiplier: number }
+  | { type: "levelFinished"; levelIndex: number; isLastLevel: boolean; timeMs: number; scores: LevelScore[] };
+
+// One player's paddle and everything that is theirs alone
+export class PlayerSlot {
+  lives = START_LIVES;
+  readonly score = new ScoreKeeper();
+  readonly powerUps = new PowerUpState();
+
+  constructor(readonly index: number, readonly player: Player) {}
+
+  get isOut(): boolean {
+    return this.lives <= 0;
+  }
+}
+
+export class Simulation {
+  readonly field: GameField;
+  players: PlayerSlot[] = []; // one per player of the mode, player one first
+
+  levels: Level[] = [];
+  currentLevelIndex = 0;
+  levelElapsedMs = 0; // simulated time, advanced in fixed steps
+  status: GameStatus = "IDLE";
+  seed: number;
+  tick = 0; // steps simulated since start(), across all levels
+  runElapsedMs = 0; // play time since start(), each break between levels counted at its full length
+  rules: ModeRules = MODE_RULES.campaign;
+  missLimit: number | null = null; // collectibles this level may lose, null when missing doesn't matter
+
+  private spawner: Spawner;
+  private missedThisLevel = 0;
+
+  constructor(width: number, height: number, seed: number, private pack: LevelPack = DEFAULT_LEVEL_PACK) {
+    this.field = new GameField(width, height);
+    this.seed = seed;
+    this.createPlayers();
+
+    this.levels = generateCampaign(pack, seed, this.field);
+    this.spawner = this.rules.createSpawner(this.currentLevel, seed);
+  }
+
+  // Player one, the only one outside two-player modes
+  get player(): Player {
+    return this.players[0].player;
+  }
+
+  get totalScore(): number {
+    return this.players.reduce((sum, slot) => sum + slot.score.total, 0);
+  }
+
+  // Versus only: whoever is still standing, or the higher score if both made it; null on a draw,
+  // including when both went out together
+  get winner(): number | null {
+    if (!this.rules.versus) {
+      return null;
+    }
+    const standing = this.players.filter((slot) => !slot.isOut);
+    if (standing.length === 0) {
+      return null;
+    }
+    const best = Math.max(...standing.map((slot) => slot.score.total));
+    const leaders = standing.filter((slot) => slot.score.total === best);
+    return leaders.length === 1 ? leaders[0].index : null;
+  }
+
+  get mode(): GameMode {
+    return this.rules.mode;
+  }
+
+  // Scenery of what is being played right now
+  get theme(): LevelTheme {
+    return this.spawner.theme;
+  }
+
+  get levelPack(): LevelPack {
+    return this.pack;
+  }
+
+  // Swaps the campaign; only between runs
+  loadPack(pack: LevelPack): boolean {
+    if (this.status === "RUNNING" || this.status === "PAUSED" || this.status === "LEVEL_PASSED") {
+      return false;
+    }
+    this.pack = pack;
+    this.levels = generateCampaign(pack, this.seed, this.field);
+    this.currentLevelIndex = 0;
+    this.spawner = this.rules.createSpawner(this.currentLevel, this.seed);
+    return true;
+  }
+
+  get currentLevel(): Level {
+    return this.levels[this.currentLevelIndex];
+  }
+
+  get missesLeft(): number | null {
+    return this.missLimit === null ? null : Math.max(0, this.missLimit - this.missedThisLevel);
+  }
+
+  // Left of the run's time budget, null when the mode has none
+  get timeLeftMs(): number | null {
+    const limit = this.rules.timeLimitMs;
+    return limit === null ? null : Math.max(0, limit - this.runElapsedMs);
+  }
+
+  start(seed: number, levelIndex: number = 0, mode: GameMode = "campaign"): void {
+    this.seed = seed;
+    this.rules = MODE_RULES[mode];
+    this.levels = this.rules.createLevels(this.pack, seed, this.field);
+    const lastIndex = this.rules.hasLevels ? this.levels.length - 1 : 0;
+    this.currentLevelIndex = Math.max(0, Math.min(levelIndex, lastIndex));
+    this.tick = 0;
+    this.runElapsedMs = 0;
+    this.createPlayers();
+    this.beginLevel();
+  }
+
+  pause(): boolean {
+    if (this.status !== "RUNNING") {
+      return false;
+    }
+    this.status = "PAUSED";
+    return true;
+  }
+
+  resume(): boolean {
+    if (this.status !== "PAUSED") {
+      return false;
+    }
+    this.status = "RUNNING";
+    return true;
+  }
+
+  stop(): void {
+    this.status = "STOPPED";
+    this.field.gameObjects = [];
+  }
+
+  // Only valid right after a level was passed
+  advanceToNextLevel(): boolean {
+    if (this.status !== "LEVEL_PASSED" || !this.rules.hasLevels || this.currentLevelIndex >= this.levels.length - 1) {
+      return false;
+    }
+    this.runElapsedMs += this.rules.levelPassedMs;
+    this.currentLevelIndex++;
+    this.beginLevel();
+    return true;
+  }
+
+  // One fixed simulation step
+  // inputs[i] moves player i; missing ones stand still
+  step(deltaSeconds: number, inputs: MovementInput[]): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+    if (this.status !== "RUNNING") {
+      return events;
+    }
+
+    this.tick++;
+    this.levelElapsedMs += deltaSeconds * 1000;
+    this.runElapsedMs += deltaSeconds * 1000;
+    const elapsedMs = this.levelElapsedMs;
+
+    if (this.timeLeftMs === 0) {
+      this.status = "GAME_OVER";
+      events.push({ type: "gameOver", reason: "timeUp" });
+      return events;
+    }
+
+    this.spawner.spawn(elapsedMs, this.field);
+
+    for (const slot of this.players) {
+      slot.powerUps.update(deltaSeconds * 1000);
+      slot.player.width = slot.player.baseWidth * slot.powerUps.widthScale;
+      this.movePlayer(slot.player, deltaSeconds, inputs[slot.index] ?? NO_INPUT);
+    }
+
+    // Slow motion slows everything on the field, not the players or the level clock
+    const timeScale = Math.min(...this.players.map((slot) => slot.powerUps.timeScale));
+    const objectDeltaSeconds = deltaSeconds * timeScale;
+    // Fragments added by splitting objects start moving next step
+    this.field.gameObjects.slice().forEach((obj) => {
+      obj.previousLocation = { ...obj.location };
+      obj.move(objectDeltaSeconds, this.field);
+    });
+
+    // Hazards that fell out of the field were dodged, collectibles missed (split ones died mid-field).
+    // Both count for every player.
+    let missed = 0;
+    this.field.gameObjects.forEach((obj) => {
+      if (obj.isAlive || !this.field.hasLeft(obj.location)) {
+        return;
+      }
+      if (obj.role === "hazard") {
+        this.players.forEach((slot) => slot.score.objectLeftField());
+      } else if (obj.role === "collectible") {
+        // Costs points unless the mode counts misses against a limit instead
+        let pointsLost = 0;
+        for (const slot of this.players) {
+          slot.score.objectMissed();
+          pointsLost += this.missLimit === null ? slot.score.penalize(MISS_PENALTY) : 0;
+        }
+        events.push({ type: "objectMissed", pointsLost, at: { x: obj.location.x, y: this.field.height } });
+        missed++;
+      }
+    });
+    this.field.removeDead();
+    this.missedThisLevel += missed;
+
+    if (missed > 0 && this.missLimit !== null && this.missedThisLevel > this.missLimit) {
+      this.status = "GAME_OVER";
+      events.push({ type: "gameOver", reason: "tooManyMissed" });
+      return events;
+    }
+
+    this.collectPowerUps(events);
+    this.catchCollectibles(events);
+
+    // Checked player by player, since a hit clears the hazards around that player. Every player's hit
+    // counts before the run can end, so two last lives lost in the same step are a draw in versus.
+    for (const slot of this.players) {
+      const harmful = this.field.gameObjects.filter((obj) => obj.role === "hazard" || obj.role === "boss");
+      if (!slot.player.isInvulnerable && harmful.some((obj) => obj.hasCollision(slot.player))) {
+        this.handlePlayerHit(slot, events);
+      }
+    }
+
+    // Any player out ends the run: co-op needs everyone, and in versus the other one is left standing
+    if (this.players.some((slot) => slot.isOut)) {
+      this.status = "GAME_OVER";
+      events.push({ type: "gameOver", reason: "noLives" });
+      return events;
+    }
+
+    const hazards = this.field.gameObjects.filter((obj) => obj.role === "hazard");
+    for (const slot of this.players) {
+      slot.score.addSurvival(deltaSeconds);
+      const nearMissPoints = slot.score.trackNearMisses(hazards, slot.player);
+      if (nearMissPoints > 0) {
+        events.push({ type: "nearMiss", player: slot.index, points: nearMissPoints, multiplier: slot.score.multiplier });
+      }
+    }
+
+    if (this.spawner.isExhausted(elapsedMs) && this.field.gameObjects.length === 0) {
+      const isLastLevel = this.currentLevelIndex >= this.levels.length - 1;
+      this.status = isLastLevel ? "FINISHED" : "LEVEL_PASSED";
+      events.push({
+        type: "levelFinished",
+        levelIndex: this.currentLevelIndex,
+        isLastLevel,
+        timeMs: elapsedMs,
+        scores: this.players.map((slot) => slot.score.levelBreakdown()),
+      });
+    }
+
+    return events;
+  }
+
+  // Whoever touches it first
+  private toucher(obj: GameObject): PlayerSlot | undefined {
+    return this.players.find((slot) => obj.hasCollision(slot.player));
+  }
+
+  private collectPowerUps(events: SimulationEvent[]): void {
+    for (const obj of this.field.gameObjects) {
+      if (!(obj instanceof FallingPowerUp) || !obj.isAlive) {
+        continue;
+      }
+      const slot = this.toucher(obj);
+      if (!slot) {
+        continue;
+      }
+      const kind = obj.kind;
+      obj.isAlive = false;
+      slot.powerUps.activate(kind);
+      events.push({ type: "powerUpCollected", player: slot.index, kind, at: { ...obj.location } });
+
+      if (kind === "clearScreen") {
+        const cleared = this.clearHazards(() => true);
+        events.push({ type: "screenCleared", cleared });
+      }
+    }
+    this.field.removeDead();
+  }
+
+  private catchCollectibles(events: SimulationEvent[]): void {
+    for (const obj of this.field.gameObjects) {
+      const slot = obj.role === "collectible" ? this.toucher(obj) : undefined;
+      if (slot) {
+        obj.isAlive = false;
+        const points = slot.score.objectCaught();
+        events.push({ type: "objectCaught", player: slot.index, points, at: { ...obj.location } });
+      }
+    }
+    this.field.removeDead();
+  }
+
+  // Removes matching hazards without scoring them; returns where they were
+  private clearHazards(predicate: (obj: GameObject) => boolean): Point[] {
+    const cleared: Point[] = [];
+    for (const obj of this.field.gameObjects) {
+      if (obj.role === "hazard" && obj.isAlive && predicate(obj)) {
+        obj.isAlive = false;
+        cleared.push({ ...obj.location });
+      }
+    }
+    this.field.removeDead();
+    return cleared;
+  }
+
+  private handlePlayerHit(slot: PlayerSlot, events: SimulationEvent[]): void {
+    const player = slot.player;
+    const center = player.location;
+    const cleared = this.clearHazards(
+      (obj) =>
+        obj.hasCollision(player) ||
+        Math.hypot(obj.location.x - center.x, obj.location.y - center.y) <= HIT_CLEAR_RADIUS
+    );
+
+    if (slot.powerUps.absorbHit()) {
+      player.invulnerableMs = SHIELD_INVULNERABILITY_MS;
+      events.push({ type: "shieldUsed", player: slot.index, cleared });
+      return;
+    }
+
+    slot.score.playerHit();
+    if (this.rules.hitPenalty !== null) {
+      // No lives at stake: the hit only costs points
+      const pointsLost = slot.score.penalize(this.rules.hitPenalty);
+      events.push({ type: "playerHit", player: slot.index, livesLeft: slot.lives, pointsLost, cleared });
+      player.invulnerableMs = HIT_INVULNERABILITY_MS;
+      return;
+    }
+
+    slot.lives--;
+    events.push({ type: "playerHit", player: slot.index, livesLeft: slot.lives, pointsLost: 0, cleared });
+
+    if (slot.isOut) {
+      player.isAlive = false;
+      return;
+    }
+    player.invulnerableMs = HIT_INVULNERABILITY_MS;
+  }
+
+  private createPlayers(): void {
+    const count = this.rules.playerCount;
+    this.players = PLAYER_COLORS.slice(0, count).map((color, i) => {
+      // Spread evenly along the bottom
+      const start = {
+        x: (this.field.width * (i + 1)) / (count + 1),
+        y: this.field.height - PLAYER_HEIGHT - 12,
+      };
+      return new PlayerSlot(i, new Player(start, PLAYER_WIDTH, PLAYER_HEIGHT, color, "#ffffff"));
+    });
+    this.field.players = this.players.map((slot) => slot.player);
+  }
+
+  private beginLevel(): void {
+    this.field.gameObjects = [];
+    this.levelElapsedMs = 0;
+    this.spawner = this.rules.createSpawner(this.currentLevel, this.seed);
+    this.players.forEach((slot) => slot.score.beginLevel());
+    this.missedThisLevel = 0;
+    const allowance = this.rules.missAllowance;
+    this.missLimit =
+      allowance === null
+        ? null
+        : Math.max(MIN_MISS_LIMIT, Math.floor(this.currentLevel.levelObjects.length * allowance));
+    this.status = "RUNNING";
+  }
+
+  private movePlayer(player: Player, deltaSeconds: number, input: MovementInput): void {
+    player.previousLocation = { ...player.location };
+    if (input.left) {
+      player.moveLeft(deltaSeconds);
+    }
+    if (input.right) {
+      player.moveRight(deltaSeconds);
+    }
+    if (input.up) {
+      player.moveUp(deltaSeconds);
+    }
+    if (input.down) {
+      player.moveDown(deltaSeconds);
+    }
+    if (input.stick) {
+      player.steer(input.stick, deltaSeconds);
+    }
+    player.move(deltaSeconds, this.field);
+  }
+}
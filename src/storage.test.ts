@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_BINDINGS } from "./controls";
+import { DEFAULT_LEVEL_PACK } from "./levelpack";
+import { GameStorage, SCHEMA_VERSION } from "./storage";
+
+const STORAGE_KEY = "falling-objects-game";
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+// A storage holding this raw text as the saved document
+function storageWith(raw: string): MemoryStorage {
+  const storage = new MemoryStorage();
+  storage.setItem(STORAGE_KEY, raw);
+  return storage;
+}
+
+function load(document: unknown): GameStorage {
+  return new GameStorage(storageWith(JSON.stringify(document)));
+}
+
+function expectEmpty(storage: GameStorage): void {
+  expect(storage.highScores).toEqual([]);
+  expect(storage.furthestLevel).toBe(0);
+  expect(storage.checkpoint).toBeNull();
+  expect(storage.bindings).toEqual(DEFAULT_BINDINGS);
+}
+
+const entry = { score: 500, level: 4, seed: 7, date: "2026-01-01T00:00:00.000Z" };
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("GameStorage", () => {
+  it("starts empty without storage or a saved document", () => {
+    expectEmpty(new GameStorage(null));
+    expectEmpty(new GameStorage(new MemoryStorage()));
+  });
+
+  it("keeps what it records across sessions", () => {
+    const storage = new MemoryStorage();
+    new GameStorage(storage).recordRun({ score: 300, level: 3, seed: 11 });
+
+    const reloaded = new GameStorage(storage);
+    expect(reloaded.highScores).toHaveLength(1);
+    expect(reloaded.highScores[0]).toMatchObject({ score: 300, level: 3, seed: 11 });
+    expect(reloaded.checkpoint).toEqual({ level: 3, seed: 11 });
+  });
+
+  it("falls back to empty records for invalid JSON and keeps saving", () => {
+    const storage = storageWith("{not json");
+    const records = new GameStorage(storage);
+    expectEmpty(records);
+
+    records.recordRun({ score: 100, level: 1, seed: 1 });
+    expect(new GameStorage(storage).highScores).toHaveLength(1);
+  });
+
+  it("falls back to empty records when the document isn't an object", () => {
+    for (const document of [null, 42, "scores", [entry]]) {
+      expectEmpty(load(document));
+    }
+  });
+
+  it("drops documents of an unknown older version", () => {
+    expectEmpty(load({ highScores: [entry] }));
+    expectEmpty(load({ version: 0, highScores: [entry] }));
+  });
+
+  it("leaves a document from a newer version untouched", () => {
+    const raw = JSON.stringify({ version: SCHEMA_VERSION + 1, highScores: [entry] });
+    const storage = storageWith(raw);
+    const records = new GameStorage(storage);
+    expectEmpty(records);
+
+    records.recordRun({ score: 100, level: 1, seed: 1 });
+    expect(storage.getItem(STORAGE_KEY)).toBe(raw);
+  });
+
+  it("drops malformed entries and keeps the rest", () => {
+    const records = load({
+      version: SCHEMA_VERSION,
+      highScores: [entry, { ...entry, score: "lots" }, null, { ...entry, score: 900 }],
+      bestLevelTimes: { 1: 12000, 2: -5, 3: "fast" },
+      bindings: { pause: ["q"], left: "a", right: ["", "d"] },
+      touchScheme: "telepathy",
+    });
+    expect(records.highScores.map((e) => e.score)).toEqual([900, 500]);
+    expect(records.bestLevelTimes).toEqual([[1, 12000]]);
+    expect(records.bindings).toEqual({ ...DEFAULT_BINDINGS, pause: ["q"] });
+    expect(records.touchScheme).toBe("drag");
+  });
+
+  it("keeps the checkpoint within the levels reached", () => {
+    const campaignLength = DEFAULT_LEVEL_PACK.levels.length;
+    const checkpoint = { level: 1e9, seed: 3 };
+    expect(load({ version: SCHEMA_VERSION, furthestLevel: 12, checkpoint }).checkpoint).toEqual({ level: 12, seed: 3 });
+
+    const past = load({ version: SCHEMA_VERSION, furthestLevel: 1e9, checkpoint });
+    expect(past.furthestLevel).toBe(campaignLength);
+    expect(past.checkpoint).toEqual({ level: campaignLength, seed: 3 });
+
+    // Nothing reached, nothing to continue from
+    expect(load({ version: SCHEMA_VERSION, checkpoint }).checkpoint).toBeNull();
+  });
+});
@@ -0,0 +1,351 @@
+import { ACTIONS, BINDING_SLOTS, Bindings, DEFAULT_BINDINGS, TOUCH_SCHEMES, TouchScheme } from "./controls";
+import type { DailyResult } from "./daily";
+import { DEFAULT_LEVEL_PACK } from "./levelpack";
+
+// ---------- Local Storage ----------
+//
+// Everything we keep between sessions lives under one localStorage key as a
+// versioned JSON document. Missing, corrupt or unavailable storage is never
+// an error: we fall back to empty records and keep playing.
+
+const STORAGE_KEY = "falling-objects-game";
+// Bump when the format changes, and upgrade documents of the old version in load()
+export const SCHEMA_VERSION = 1;
+export const MAX_HIGH_SCORES = 10;
+
+export interface HighScoreEntry {
+  score: number;
+  level: number; // level number reached (1-based)
+  seed: number;
+  date: string; // ISO timestamp
+}
+
+// Endless runs rank by time survived
+export interface EndlessScoreEntry {
+  timeMs: number;
+  score: number;
+  seed: number;
+  date: string; // ISO timestamp
+}
+
+// Highest level reached and the run seed it was reached with, so "continue"
+// brings back the same layouts
+export interface Checkpoint {
+  level: number; // 1-based
+  seed: number;
+}
+
+export interface SaveData {
+  version: number;
+  highScores: HighScoreEntry[];
+  furthestLevel: number; // 1-based, 0 when nothing was played yet
+  bestLevelTimes: Record<string, number>; // level number -> fastest clear in ms
+  checkpoint: Checkpoint | null;
+  endlessScores: EndlessScoreEntry[];
+  daily: Record<string, DailyResult>; // day key -> best attempt of that day
+  bindings: Partial<Bindings>; // only the actions the player rebound
+  touchScheme: TouchScheme;
+}
+
+function emptySaveData(): SaveData {
+  return {
+    version: SCHEMA_VERSION,
+    highScores: [],
+    furthestLevel: 0,
+    bestLevelTimes: {},
+    checkpoint: null,
+    endlessScores: [],
+    daily: {},
+    bindings: {},
+    touchScheme: "drag",
+  };
+}
+
+// A stored document as read back, before anything in it is trusted
+type StoredData = Record<string, unknown>;
+
+function isRecord(value: unknown): value is StoredData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function toHighScore(e: unknown): HighScoreEntry[] {
+  if (!isRecord(e)) {
+    return [];
+  }
+  const { score, level, seed, date } = e;
+  return isFiniteNumber(score) && isFiniteNumber(level) && isFiniteNumber(seed) && typeof date === "string"
+    ? [{ score, level, seed, date }]
+    : [];
+}
+
+function toEndlessScore(e: unknown): EndlessScoreEntry[] {
+  if (!isRecord(e)) {
+    return [];
+  }
+  const { timeMs, score, seed, date } = e;
+  return isFiniteNumber(timeMs) && isFiniteNumber(score) && isFiniteNumber(seed) && typeof date === "string"
+    ? [{ timeMs, score, seed, date }]
+    : [];
+}
+
+function isKey(value: unknown): value is string {
+  return typeof value === "string" && value !== "";
+}
+
+function isTouchScheme(value: unknown): value is TouchScheme {
+  return TOUCH_SCHEMES.includes(value as TouchScheme);
+}
+
+// Keeps whatever is well-formed and drops the rest
+function sanitize(data: StoredData): SaveData {
+  const result = emptySaveData();
+
+  if (Array.isArray(data.highScores)) {
+    result.highScores = data.highScores
+      .flatMap(toHighScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_HIGH_SCORES);
+  }
+
+  // Records belong to the built-in campaign, so nobody got further than its last level
+  if (isFiniteNumber(data.furthestLevel) && data.furthestLevel > 0) {
+    result.furthestLevel = Math.min(Math.floor(data.furthestLevel), DEFAULT_LEVEL_PACK.levels.length);
+  }
+
+  if (isRecord(data.bestLevelTimes)) {
+    for (const [level, ms] of Object.entries(data.bestLevelTimes)) {
+      if (isFiniteNumber(ms) && ms > 0) {
+        result.bestLevelTimes[level] = ms;
+      }
+    }
+  }
+
+  if (isRecord(data.checkpoint)) {
+    // ...and the checkpoint is never past the furthest level reached
+    const { level, seed } = data.checkpoint;
+    const reached = isFiniteNumber(level) ? Math.min(Math.floor(level), result.furthestLevel) : 0;
+    if (isFiniteNumber(seed) && reached >= 1) {
+      result.checkpoint = { level: reached, seed: seed >>> 0 };
+    }
+  }
+
+  if (Array.isArray(data.endlessScores)) {
+    result.endlessScores = data.endlessScores
+      .flatMap(toEndlessScore)
+      .sort((a, b) => b.timeMs - a.timeMs)
+      .slice(0, MAX_HIGH_SCORES);
+  }
+
+  if (isRecord(data.daily)) {
+    for (const [day, entry] of Object.entries(data.daily)) {
+      if (!isRecord(entry) || !/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+        continue;
+      }
+      const { score, levelsCleared } = entry;
+      if (isFiniteNumber(score) && isFiniteNumber(levelsCleared)) {
+        result.daily[day] = { score, levelsCleared: Math.floor(levelsCleared) };
+      }
+    }
+  }
+
+  const bindings = data.bindings;
+  if (isRecord(bindings)) {
+    for (const action of ACTIONS) {
+      const keys = bindings[action];
+      if (Array.isArray(keys) && keys.length <= BINDING_SLOTS && keys.every(isKey)) {
+        result.bindings[action] = keys;
+      }
+    }
+  }
+
+  if (isTouchScheme(data.touchScheme)) {
+    result.touchScheme = data.touchScheme;
+  }
+
+  return result;
+}
+
+function openLocalStorage(): Storage | null {
+  try {
+    // Throws in some privacy modes / sandboxed iframes
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+export class GameStorage {
+  private data: SaveData;
+  // Off when the stored document is from a newer build, so we don't overwrite it
+  private writable = true;
+
+  constructor(private storage: Storage | null = openLocalStorage()) {
+    this.data = this.load();
+  }
+
+  get highScores(): HighScoreEntry[] {
+    return this.data.highScores;
+  }
+
+  get endlessScores(): EndlessScoreEntry[] {
+    return this.data.endlessScores;
+  }
+
+  get daily(): Record<string, DailyResult> {
+    return this.data.daily;
+  }
+
+  // The defaults with the player's changes applied
+  get bindings(): Bindings {
+    return { ...DEFAULT_BINDINGS, ...this.data.bindings };
+  }
+
+  get touchScheme(): TouchScheme {
+    return this.data.touchScheme;
+  }
+
+  get furthestLevel(): number {
+    return this.data.furthestLevel;
+  }
+
+  get checkpoint(): Checkpoint | null {
+    return this.data.checkpoint;
+  }
+
+  // [level number, ms] pairs, in level order
+  get bestLevelTimes(): [number, number][] {
+    return Object.entries(this.data.bestLevelTimes)
+      .map(([level, ms]): [number, number] => [Number(level), ms])
+      .sort((a, b) => a[0] - b[0]);
+  }
+
+  bestLevelTime(levelNumber: number): number | null {
+    return this.data.bestLevelTimes[String(levelNumber)] ?? null;
+  }
+
+  // Returns the 1-based rank of the new entry, or null if it didn't make the table
+  recordRun(entry: Omit<HighScoreEntry, "date">): number | null {
+    if (entry.score <= 0) {
+      return null;
+    }
+    const full: HighScoreEntry = { ...entry, date: new Date().toISOString() };
+    const scores = [...this.data.highScores, full].sort((a, b) => b.score - a.score);
+    this.data.highScores = scores.slice(0, MAX_HIGH_SCORES);
+    this.recordLevelReached(entry.level, entry.seed);
+    this.save();
+
+    const rank = this.data.highScores.indexOf(full);
+    return rank >= 0 ? rank + 1 : null;
+  }
+
+  // Same as recordRun, for the endless table
+  recordEndlessRun(entry: Omit<EndlessScoreEntry, "date">): number | null {
+    if (entry.timeMs <= 0) {
+      return null;
+    }
+    const full: EndlessScoreEntry = { ...entry, date: new Date().toISOString() };
+    const scores = [...this.data.endlessScores, full].sort((a, b) => b.timeMs - a.timeMs);
+    this.data.endlessScores = scores.slice(0, MAX_HIGH_SCORES);
+    this.save();
+
+    const rank = this.data.endlessScores.indexOf(full);
+    return rank >= 0 ? rank + 1 : null;
+  }
+
+  // Keeps the day's best attempt; true when this one is it
+  recordDailyAttempt(day: string, result: DailyResult): boolean {
+    // Further wins, then the higher score
+    const best = this.data.daily[day];
+    if (best && (best.levelsCleared - result.levelsCleared || best.score - result.score) >= 0) {
+      return false;
+    }
+    this.data.daily[day] = result;
+    this.save();
+    return true;
+  }
+
+  // Keeps only what differs from the defaults, so later changes to a default still reach the player
+  saveBindings(bindings: Bindings): void {
+    const changed: Partial<Bindings> = {};
+    for (const action of ACTIONS) {
+      if (bindings[action].join("\n") !== DEFAULT_BINDINGS[action].join("\n")) {
+        changed[action] = bindings[action].slice();
+      }
+    }
+    this.data.bindings = changed;
+    this.save();
+  }
+
+  saveTouchScheme(scheme: TouchScheme): void {
+    this.data.touchScheme = scheme;
+    this.save();
+  }
+
+  recordLevelReached(levelNumber: number, seed: number): void {
+    if (levelNumber > this.data.furthestLevel) {
+      this.data.furthestLevel = levelNumber;
+      this.save();
+    }
+    if (!this.data.checkpoint || levelNumber > this.data.checkpoint.level) {
+      this.data.checkpoint = { level: levelNumber, seed };
+      this.save();
+    }
+  }
+
+  recordLevelTime(levelNumber: number, ms: number): void {
+    const best = this.bestLevelTime(levelNumber);
+    if (best === null || ms < best) {
+      this.data.bestLevelTimes[String(levelNumber)] = ms;
+      this.save();
+    }
+  }
+
+  private load(): SaveData {
+    if (!this.storage) {
+      return emptySaveData();
+    }
+
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY);
+      if (raw === null) {
+        return emptySaveData();
+      }
+
+      const parsed: unknown = JSON.parse(raw);
+      if (!isRecord(parsed)) {
+        throw new Error("not an object");
+      }
+
+      const version = parsed.version;
+      if (isFiniteNumber(version) && version > SCHEMA_VERSION) {
+        console.warn(`Saved data is from a newer version (${version}); starting with empty records`);
+        this.writable = false;
+        return emptySaveData();
+      }
+      if (version !== SCHEMA_VERSION) {
+        throw new Error(`unknown version ${String(version)}`);
+      }
+
+      return sanitize(parsed);
+    } catch (error) {
+      console.warn("Saved data is unreadable; starting with empty records", error);
+      return emptySaveData();
+    }
+  }
+
+  private save(): void {
+    if (!this.storage || !this.writable) {
+      return;
+    }
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      // Quota exceeded or storage disabled: records just won't persist
+      console.warn("Could not save game data", error);
+    }
+  }
+}
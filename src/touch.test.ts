@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { Point } from "./geometry";
+import { PLAYER_SPEED } from "./objects";
+import { FIXED_STEP_MS } from "./simulation";
+import { TouchInput } from "./touch";
+
+// Furthest the paddle gets in one step
+const STEP_DISTANCE = PLAYER_SPEED * (FIXED_STEP_MS / 1000);
+
+// Reads sticks until the player stops steering, at most this many steps
+function drain(touch: TouchInput, maxSteps = 1000): Point[] {
+  const sticks: Point[] = [];
+  for (let stick = touch.stick(0); stick && sticks.length < maxSteps; stick = touch.stick(0)) {
+    sticks.push(stick);
+  }
+  return sticks;
+}
+
+describe("drag", () => {
+  it("follows a small movement in one step", () => {
+    const touch = new TouchInput();
+    touch.down(1, { x: 100, y: 100 }, 0);
+    expect(touch.stick(0)).toBeNull();
+
+    touch.move(1, { x: 100 + STEP_DISTANCE / 2, y: 100 });
+    expect(touch.stick(0)).toEqual({ x: 0.5, y: 0 });
+    expect(touch.stick(0)).toBeNull();
+  });
+
+  it("never moves the paddle faster than full speed, however far the finger jumps", () => {
+    const touch = new TouchInput();
+    touch.down(1, { x: 100, y: 100 }, 0);
+    touch.move(1, { x: 100 + 10.5 * STEP_DISTANCE, y: 100 });
+
+    const sticks = drain(touch);
+    expect(sticks).toHaveLength(11);
+    for (const stick of sticks) {
+      expect(Math.hypot(stick.x, stick.y)).toBeLessThanOrEqual(1 + 1e-9);
+    }
+    // Every bit of the drag is covered in the end
+    const covered = sticks.reduce((sum, stick) => sum + stick.x * STEP_DISTANCE, 0);
+    expect(covered).toBeCloseTo(10.5 * STEP_DISTANCE);
+  });
+
+  it("drops what's left of a drag when the finger lifts", () => {
+    const touch = new TouchInput();
+    touch.down(1, { x: 100, y: 100 }, 0);
+    touch.move(1, { x: 100, y: 100 + 5 * STEP_DISTANCE });
+    expect(touch.stick(0)).toEqual({ x: 0, y: 1 });
+    touch.up(1);
+    expect(touch.stick(0)).toBeNull();
+  });
+
+  it("steers with each player's first finger only", () => {
+    const touch = new TouchInput();
+    touch.down(1, { x: 100, y: 100 }, 0);
+    touch.down(2, { x: 200, y: 100 }, 0);
+    touch.down(3, { x: 600, y: 100 }, 1);
+    touch.move(2, { x: 250, y: 100 });
+    touch.move(3, { x: 600 - STEP_DISTANCE, y: 100 });
+
+    expect(touch.stick(0)).toBeNull();
+    expect(touch.stick(1)).toEqual({ x: -1, y: 0 });
+  });
+});
+
+describe("joystick", () => {
+  function stickAt(offset: Point): TouchInput {
+    const touch = new TouchInput();
+    touch.joystickRadius = 40;
+    touch.down(1, { x: 100, y: 100 }, 0, "joystick");
+    touch.move(1, { x: 100 + offset.x, y: 100 + offset.y });
+    return touch;
+  }
+
+  it("maps the finger's offset from where it came down to the stick", () => {
+    expect(stickAt({ x: 20, y: 0 }).stick(0)).toEqual({ x: 0.5, y: 0 });
+    expect(stickAt({ x: 0, y: -30 }).stick(0)).toEqual({ x: 0, y: -0.75 });
+    // It holds for as long as the finger stays put
+    const touch = stickAt({ x: -20, y: 0 });
+    expect(touch.stick(0)).toEqual(touch.stick(0));
+  });
+
+  it("ignores small offsets around the base", () => {
+    expect(stickAt({ x: 0, y: 0 }).stick(0)).toBeNull();
+    expect(stickAt({ x: 5, y: 0 }).stick(0)).toBeNull();
+  });
+
+  it("tops out at full speed past the radius, with the knob kept on the rim", () => {
+    const touch = stickAt({ x: 300, y: 400 });
+    expect(touch.stick(0)).toEqual({ x: 0.6, y: 0.8 });
+    expect(touch.joysticks).toEqual([{ base: { x: 100, y: 100 }, knob: { x: 124, y: 132 }, radius: 40 }]);
+  });
+});
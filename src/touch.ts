@@ -0,0 +1,127 @@
+import type { TouchScheme } from "./controls";
+import type { Point } from "./geometry";
+import { PLAYER_SPEED } from "./objects";
+import { FIXED_STEP_MS } from "./simulation";
+
+// ---------- Touch ----------
+//
+// A finger never places the paddle directly. With "drag" the paddle follows
+// the finger's movement, no faster than it could move anyway; with
+// "joystick" a touch sets down a stick's base and the finger's offset from
+// it steers. Either way a touch becomes a stick position for the next
+// simulation step, just like a gamepad's. A mouse held down always drags.
+
+// How far the knob reaches from the base, in CSS pixels so it suits a thumb on any screen
+export const JOYSTICK_SCREEN_RADIUS = 50;
+const JOYSTICK_DEAD_ZONE = 0.15;
+// Furthest the paddle gets in one step
+const STEP_DISTANCE = PLAYER_SPEED * (FIXED_STEP_MS / 1000);
+
+interface ActiveTouch {
+  id: number; // PointerEvent.pointerId
+  player: number;
+  scheme: TouchScheme;
+  origin: Point; // where the finger came down
+  last: Point;
+}
+
+export interface Joystick {
+  base: Point;
+  knob: Point;
+  radius: number;
+}
+
+// Scaled down to length 1 if longer
+function capped(p: Point): Point {
+  const length = Math.hypot(p.x, p.y);
+  return length > 1 ? { x: p.x / length, y: p.y / length } : p;
+}
+
+export class TouchInput {
+  scheme: TouchScheme = "drag";
+  joystickRadius = JOYSTICK_SCREEN_RADIUS; // in world units; set from the screen scale
+
+  private touches: ActiveTouch[] = [];
+  // Dragged distance the paddle hasn't covered yet, per player
+  private pending: Point[] = [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+
+  // Only a player's first finger steers; any more are ignored until it lifts
+  down(id: number, at: Point, player: number, scheme: TouchScheme = this.scheme): void {
+    if (this.touches.some((touch) => touch.player === player)) {
+      return;
+    }
+    this.touches.push({ id, player, scheme, origin: { ...at }, last: { ...at } });
+    this.pending[player] = { x: 0, y: 0 };
+  }
+
+  move(id: number, at: Point): void {
+    const touch = this.touches.find((t) => t.id === id);
+    if (!touch) {
+      return;
+    }
+    if (touch.scheme === "drag") {
+      const pending = this.pending[touch.player];
+      pending.x += at.x - touch.last.x;
+      pending.y += at.y - touch.last.y;
+    }
+    touch.last = { ...at };
+  }
+
+  up(id: number): void {
+    const touch = this.touches.find((t) => t.id === id);
+    if (!touch) {
+      return;
+    }
+    this.touches = this.touches.filter((t) => t !== touch);
+    this.pending[touch.player] = { x: 0, y: 0 };
+  }
+
+  // Lifts every finger, e.g. when the page loses focus mid-touch
+  clear(): void {
+    this.touches = [];
+    this.pending = [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+  }
+
+  // A player's stick for the next step, null while they aren't steering.
+  // Call once per step: dragging hands out the pending distance a step at a time.
+  stick(player: number): Point | null {
+    const touch = this.touches.find((t) => t.player === player);
+    if (!touch) {
+      return null;
+    }
+
+    if (touch.scheme === "joystick") {
+      const offset = { x: touch.last.x - touch.origin.x, y: touch.last.y - touch.origin.y };
+      const stick = capped({ x: offset.x / this.joystickRadius, y: offset.y / this.joystickRadius });
+      return Math.hypot(stick.x, stick.y) > JOYSTICK_DEAD_ZONE ? stick : null;
+    }
+
+    const pending = this.pending[player];
+    if (pending.x === 0 && pending.y === 0) {
+      return null;
+    }
+    const stick = capped({ x: pending.x / STEP_DISTANCE, y: pending.y / STEP_DISTANCE });
+    if (Math.hypot(pending.x, pending.y) <= STEP_DISTANCE) {
+      this.pending[player] = { x: 0, y: 0 };
+    } else {
+      pending.x -= stick.x * STEP_DISTANCE;
+      pending.y -= stick.y * STEP_DISTANCE;
+    }
+    return stick;
+  }
+
+  // What to draw for the joystick scheme, one per finger down
+  get joysticks(): Joystick[] {
+    const radius = this.joystickRadius;
+    return this.touches
+      .filter((touch) => touch.scheme === "joystick")
+      .map(({ origin, last }) => {
+        const offset = capped({ x: (last.x - origin.x) / radius, y: (last.y - origin.y) / radius });
+        return {
+          base: origin,
+          knob: { x: origin.x + offset.x * radius, y: origin.y + offset.y * radius },
+          radius,
+        };
+      });
+  }
+}
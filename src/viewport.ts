@@ -0,0 +1,74 @@
+import { WORLD_HEIGHT, WORLD_WIDTH } from "./field";
+import type { Point } from "./geometry";
+
+// ---------- Viewport ----------
+//
+// The game is measured in world units: the field is WORLD_WIDTH x
+// WORLD_HEIGHT on every screen, so a seed lays out the same everywhere. The
+// Viewport fits that world into the canvas as CSS lays it out, letterboxed
+// when the aspect ratios differ, with a backing store at devicePixelRatio so
+// it stays sharp. It refits whenever the canvas or the pixel ratio changes.
+// The canvas needs a CSS width: one sized by its width attribute would grow
+// with every fit.
+
+export class Viewport {
+  scale = 1; // backing-store pixels per world unit
+  onResize: () => void = () => {};
+
+  private offset: Point = { x: 0, y: 0 }; // backing-store pixels before the world starts
+  private ratio = 0; // devicePixelRatio at the last fit
+
+  constructor(private canvas: HTMLCanvasElement) {
+    this.fit();
+    new ResizeObserver(() => this.refit()).observe(canvas);
+    // Zooming or moving the window to another screen changes the ratio, not always the canvas size
+    window.addEventListener("resize", () => this.refit());
+    window.addEventListener("orientationchange", () => this.refit());
+  }
+
+  // CSS pixels per world unit, for sizing things meant for fingers
+  get cssScale(): number {
+    return this.scale / this.ratio;
+  }
+
+  // Returns whether the backing store changed
+  fit(): boolean {
+    // The content box, where the backing store is drawn; borders don't count
+    const { clientWidth, clientHeight } = this.canvas;
+    const ratio = window.devicePixelRatio || 1;
+    // Not laid out (e.g. hidden): keep the size from the canvas attributes
+    const width = clientWidth > 0 ? Math.round(clientWidth * ratio) : this.canvas.width;
+    const height = clientHeight > 0 ? Math.round(clientHeight * ratio) : this.canvas.height;
+    const changed = width !== this.canvas.width || height !== this.canvas.height || ratio !== this.ratio;
+
+    // Setting the size clears the canvas, so only when it really changes
+    if (width !== this.canvas.width || height !== this.canvas.height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.ratio = ratio;
+    this.scale = Math.min(width / WORLD_WIDTH, height / WORLD_HEIGHT);
+    this.offset = { x: (width - WORLD_WIDTH * this.scale) / 2, y: (height - WORLD_HEIGHT * this.scale) / 2 };
+    return changed;
+  }
+
+  // Draw in world units from here on
+  apply(ctx: CanvasRenderingContext2D): void {
+    ctx.setTransform(this.scale, 0, 0, this.scale, this.offset.x, this.offset.y);
+  }
+
+  // Page coordinates (e.g. a PointerEvent's clientX/Y) to world units
+  toWorld(clientX: number, clientY: number): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    const { clientLeft, clientTop, clientWidth, clientHeight } = this.canvas;
+    const x = (clientX - rect.left - clientLeft) * (this.canvas.width / clientWidth);
+    const y = (clientY - rect.top - clientTop) * (this.canvas.height / clientHeight);
+    return { x: (x - this.offset.x) / this.scale, y: (y - this.offset.y) / this.scale };
+  }
+
+  private refit(): void {
+    if (this.fit()) {
+      this.onResize();
+    }
+  }
+}
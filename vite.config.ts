@@ -11,6 +11,7 @@ export default defineConfig({
     rollupOptions: {
       input: {
         main: "game.html",
+        editor: "editor.html",
       },
     },
   },